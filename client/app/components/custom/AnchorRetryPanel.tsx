@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from "react";
+import { RotateCcw } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import type { Database } from "firebase/database";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { useToast } from "~/hooks/use-toast";
+import { anchorWithStatus, fetchRetryQueue, walletSender, type RetryEntry } from "~/lib/anchoring";
+import { institutionId } from "~/lib/institution";
+
+interface AnchorRetryPanelProps {
+  patientRegistry: Contract | null;
+  database: Database;
+  orgId: string;
+  account: string;
+  // Bumped by the parent after a submission, so a fresh failure shows up without a reload
+  refreshKey: number;
+}
+
+export default function AnchorRetryPanel({ patientRegistry, database, orgId, account, refreshKey }: AnchorRetryPanelProps) {
+  const [queue, setQueue] = useState<{ [address: string]: RetryEntry }>({});
+  const [retrying, setRetrying] = useState(false);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    setQueue(await fetchRetryQueue(database, orgId));
+  }, [database, orgId]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue, refreshKey]);
+
+  // Re-submits the queued hashes with registerPatients, one transaction per hashing scheme
+  const retryAll = async () => {
+    if (!patientRegistry) return;
+
+    const groups: { [scheme: string]: string[] } = {};
+    for (const [address, entry] of Object.entries(queue)) {
+      const scheme = `${entry.algorithm}:${entry.schemaVersion}`;
+      groups[scheme] = [...(groups[scheme] || []), address];
+    }
+
+    setRetrying(true);
+    let anchored = 0;
+    try {
+      for (const members of Object.values(groups)) {
+        const { algorithm, schemaVersion } = queue[members[0]];
+        const requests = members.map((address) => ({ patientAddress: address, ...queue[address] }));
+
+        // A group that fails again stays queued with its attempt count raised, the other groups still go ahead
+        try {
+          await anchorWithStatus(database, orgId, requests, walletSender(patientRegistry.methods.registerPatients(
+            members,
+            institutionId(orgId),
+            members.map((address) => queue[address].dataHash),
+            algorithm,
+            schemaVersion
+          ), account));
+          anchored += members.length;
+        } catch (error) {
+          console.error("Error retrying anchors:", error);
+        }
+      }
+
+      toast({
+        title: "Retry finished",
+        description: `${anchored} of ${Object.keys(queue).length} record(s) were anchored.`,
+        variant: anchored === Object.keys(queue).length ? "default" : "destructive",
+      });
+    } finally {
+      await fetchQueue();
+      setRetrying(false);
+    }
+  };
+
+  const entries = Object.entries(queue);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <RotateCcw className="h-5 w-5" />
+          <span>Failed Anchors</span>
+        </CardTitle>
+        <CardDescription>
+          Records whose transaction was rejected or reverted are saved but unanchored until they are re-submitted
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Badge variant={entries.length > 0 ? "destructive" : "secondary"}>{entries.length} record(s) to retry</Badge>
+          <Button onClick={retryAll} disabled={!patientRegistry || retrying || entries.length === 0}>
+            {retrying ? "Retrying..." : "Retry All"}
+          </Button>
+        </div>
+        {entries.length > 0 && (
+          <ul className="space-y-2 text-sm">
+            {entries.map(([address, entry]) => (
+              <li key={address} className="border rounded p-2">
+                <p className="font-mono break-all">{address}</p>
+                <p className="text-muted-foreground">
+                  {entry.attempts} attempt(s), last on {new Date(entry.failedAt * 1000).toLocaleString()}: {entry.lastError}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from "react";
+import { Stethoscope } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Textarea } from "~/components/ui/textarea";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { useToast } from "~/hooks/use-toast";
+import {
+  ClinicalEventType,
+  CLINICAL_EVENT_FIELDS,
+  CLINICAL_EVENT_LABELS,
+  fetchClinicalEvents,
+  recordClinicalEvent,
+  verifyClinicalEvent,
+  type ClinicalEvent,
+} from "~/lib/clinical-events";
+
+interface ClinicalTimelineProps {
+  eventRegistry: Contract | null;
+  patientAddress: string;
+  account: string;
+  // Set when the record was opened through break-the-glass rather than consent
+  emergencyAccessId?: string;
+}
+
+export default function ClinicalTimeline({ eventRegistry, patientAddress, account, emergencyAccessId }: ClinicalTimelineProps) {
+  const [events, setEvents] = useState<ClinicalEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [eventType, setEventType] = useState<ClinicalEventType>(ClinicalEventType.Diagnosis);
+  const [occurredOn, setOccurredOn] = useState<string>("");
+  const [details, setDetails] = useState<{ [field: string]: string }>({});
+  const [notes, setNotes] = useState<string>("");
+  const [submitting, setSubmitting] = useState(false);
+  // eventId => whether the Firebase copy still hashes to the anchored value
+  const [verified, setVerified] = useState<{ [eventId: number]: boolean }>({});
+  const { toast } = useToast();
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEvents(await fetchClinicalEvents(patientAddress, emergencyAccessId));
+      setVerified({});
+    } catch (error) {
+      console.error("Error loading clinical events:", error);
+      toast({
+        title: "Error",
+        description: `There was an error loading the clinical events: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [patientAddress, emergencyAccessId, toast]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const recordEvent = async () => {
+    if (!eventRegistry) return;
+
+    if (!occurredOn) {
+      toast({
+        title: "Error",
+        description: "Please enter the date of the event",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      // Only the fields of the selected type are kept, values typed for another type are dropped
+      const entered = CLINICAL_EVENT_FIELDS[eventType].reduce((result, field) => {
+        if (details[field.name]?.trim()) {
+          result[field.name] = details[field.name].trim();
+        }
+        return result;
+      }, {} as { [field: string]: string });
+
+      await recordClinicalEvent(eventRegistry, patientAddress, {
+        eventType,
+        occurredAt: Math.floor(new Date(occurredOn).getTime() / 1000),
+        details: entered,
+        notes: notes.trim(),
+      }, account);
+
+      setOccurredOn("");
+      setDetails({});
+      setNotes("");
+      await loadEvents();
+      toast({
+        title: "Success",
+        description: `${CLINICAL_EVENT_LABELS[eventType]} recorded and anchored on the blockchain`,
+      });
+    } catch (error) {
+      console.error("Error recording clinical event:", error);
+      toast({
+        title: "Error",
+        description: `There was an error recording the clinical event: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const verifyEvent = async (event: ClinicalEvent) => {
+    if (!eventRegistry) return;
+
+    try {
+      const intact = await verifyClinicalEvent(eventRegistry, patientAddress, event);
+      setVerified((current) => ({ ...current, [event.eventId]: intact }));
+      if (!intact) {
+        toast({
+          title: "Data Integrity Compromised",
+          description: `The ${CLINICAL_EVENT_LABELS[event.eventType].toLowerCase()} event no longer matches its anchored hash.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error verifying clinical event:", error);
+      toast({
+        title: "Error",
+        description: `There was an error verifying the clinical event: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <Stethoscope className="h-5 w-5" />
+          <span>Medical Records</span>
+        </CardTitle>
+        <CardDescription>
+          Diagnoses, treatments and outcomes in the order they happened, each anchored with its own hash
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4 border rounded-md p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <Select
+              value={String(eventType)}
+              onValueChange={(value) => {
+                setEventType(Number(value) as ClinicalEventType);
+                setDetails({});
+              }}
+            >
+              <SelectTrigger className="max-w-xs">
+                <SelectValue placeholder="Event type" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CLINICAL_EVENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={occurredOn}
+              onChange={(e) => setOccurredOn(e.target.value)}
+              className="max-w-xs"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {CLINICAL_EVENT_FIELDS[eventType].map((field) => (
+              <Input
+                key={field.name}
+                placeholder={field.label}
+                value={details[field.name] || ""}
+                onChange={(e) => setDetails((current) => ({ ...current, [field.name]: e.target.value }))}
+              />
+            ))}
+          </div>
+          <Textarea
+            placeholder="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <Button onClick={recordEvent} disabled={!eventRegistry || submitting}>
+            {submitting ? "Recording..." : "Record Event"}
+          </Button>
+        </div>
+
+        {loading && <p className="text-sm text-muted-foreground">Loading clinical events...</p>}
+
+        {!loading && events.length === 0 && (
+          <p className="text-sm text-muted-foreground">No clinical events have been recorded for this patient.</p>
+        )}
+
+        <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+          {events.map((event) => (
+            <li key={event.eventId} className="ml-4">
+              <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white" />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {new Date(event.occurredAt * 1000).toLocaleDateString()}
+                </span>
+                <Badge variant="secondary">{CLINICAL_EVENT_LABELS[event.eventType]}</Badge>
+                {event.eventId in verified && (
+                  <Badge variant={verified[event.eventId] ? "outline" : "destructive"}>
+                    {verified[event.eventId] ? "Verified" : "Compromised"}
+                  </Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => verifyEvent(event)} disabled={!eventRegistry}>
+                  Verify
+                </Button>
+              </div>
+              <div className="mt-1 space-y-1 text-sm">
+                {CLINICAL_EVENT_FIELDS[event.eventType].filter((field) => event.details?.[field.name]).map((field) => (
+                  <p key={field.name}>
+                    <span className="font-medium">{field.label}:</span> {event.details[field.name]}
+                  </p>
+                ))}
+                {event.notes && <p className="text-muted-foreground">{event.notes}</p>}
+                <p className="text-xs text-muted-foreground break-all">
+                  Recorded by {event.recordedBy} on {new Date(event.timestamp * 1000).toLocaleString()} • {event.transactionHash}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from "react";
+import { KeyRound } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { useToast } from "~/hooks/use-toast";
+
+interface ConsentGrant {
+  clinician: string;
+  grantedAt: number;
+  expiresAt: number;
+  revoked: boolean;
+}
+
+interface ConsentManagerProps {
+  consentRegistry: Contract | null;
+  account: string;
+}
+
+const grantStatus = (grant: ConsentGrant) => {
+  if (grant.revoked) return "Revoked";
+  if (grant.expiresAt !== 0 && grant.expiresAt * 1000 <= Date.now()) return "Expired";
+  return "Active";
+};
+
+export default function ConsentManager({ consentRegistry, account }: ConsentManagerProps) {
+  const [grants, setGrants] = useState<ConsentGrant[]>([]);
+  const [clinician, setClinician] = useState<string>("");
+  const [expiryDate, setExpiryDate] = useState<string>("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchGrants = useCallback(async () => {
+    if (!consentRegistry) return;
+
+    const result: ConsentGrant[] = await consentRegistry.methods.getConsents(account).call();
+    setGrants(result.map((grant) => ({
+      clinician: grant.clinician,
+      grantedAt: Number(grant.grantedAt),
+      expiresAt: Number(grant.expiresAt),
+      revoked: grant.revoked,
+    })));
+  }, [consentRegistry, account]);
+
+  useEffect(() => {
+    if (consentRegistry && account) {
+      fetchGrants();
+    }
+  }, [consentRegistry, account, fetchGrants]);
+
+  const grantConsent = async () => {
+    if (!consentRegistry) return;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(clinician.trim())) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid clinician wallet address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // An empty date means the grant stays valid until it is revoked
+    const expiresAt = expiryDate ? Math.floor(new Date(expiryDate).getTime() / 1000) : 0;
+
+    setSubmitting(true);
+    try {
+      await consentRegistry.methods.grantConsent(clinician.trim(), expiresAt).send({ from: account });
+
+      setClinician("");
+      setExpiryDate("");
+      await fetchGrants();
+      toast({
+        title: "Consent granted",
+        description: "The clinician can now view your record.",
+      });
+    } catch (error) {
+      console.error("Error granting consent:", error);
+      toast({
+        title: "Error",
+        description: `There was an error granting consent: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const revokeConsent = async (grantee: string) => {
+    if (!consentRegistry) return;
+
+    setSubmitting(true);
+    try {
+      await consentRegistry.methods.revokeConsent(grantee).send({ from: account });
+
+      await fetchGrants();
+      toast({
+        title: "Consent revoked",
+        description: "The clinician can no longer view your record.",
+      });
+    } catch (error) {
+      console.error("Error revoking consent:", error);
+      toast({
+        title: "Error",
+        description: `There was an error revoking consent: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <KeyRound className="h-5 w-5" />
+          <span>Access Consent</span>
+        </CardTitle>
+        <CardDescription>
+          Choose which clinicians may view your record, and for how long
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <Input
+            placeholder="Clinician wallet address"
+            value={clinician}
+            onChange={(e) => setClinician(e.target.value)}
+            className="max-w-md"
+          />
+          <Input
+            type="date"
+            aria-label="Expiry date (optional)"
+            value={expiryDate}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            className="max-w-xs"
+          />
+          <Button onClick={grantConsent} disabled={!consentRegistry || submitting}>
+            Grant Access
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {grants.length === 0 && (
+            <p className="text-sm text-gray-500">You have not granted access to any clinician.</p>
+          )}
+          {grants.map((grant) => {
+            const status = grantStatus(grant);
+            return (
+              <div key={grant.clinician} className="flex items-center justify-between border rounded px-4 py-2">
+                <div className="space-y-1 text-sm">
+                  <div className="break-all">{grant.clinician}</div>
+                  <div className="text-gray-500">
+                    Granted {new Date(grant.grantedAt * 1000).toLocaleString()}
+                    {' • '}
+                    {grant.expiresAt === 0 ? 'No expiry' : `Expires ${new Date(grant.expiresAt * 1000).toLocaleString()}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={status === "Active" ? "default" : "secondary"}>{status}</Badge>
+                  {status === "Active" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeConsent(grant.clinician)}
+                      disabled={submitting}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Users } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Textarea } from "~/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import type { DuplicateMatch } from "~/lib/duplicates";
+
+interface DuplicateReviewPanelProps {
+  matches: DuplicateMatch[];
+  busy: boolean;
+  onLink: (address: string) => void;
+  onProceed: (justification: string) => void;
+  onCancel: () => void;
+}
+
+// Registering anyway is audited, so the justification has to say something
+const MIN_JUSTIFICATION_LENGTH = 10;
+
+// Shown instead of the submit buttons when the new patient resembles existing records
+export default function DuplicateReviewPanel({ matches, busy, onLink, onProceed, onCancel }: DuplicateReviewPanelProps) {
+  const [justification, setJustification] = useState("");
+
+  return (
+    <Card className="border-yellow-400">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Possible duplicate patients
+        </CardTitle>
+        <CardDescription>
+          This patient resembles {matches.length} existing record(s). Link to one of them, register a new record with a justification, or cancel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-3">
+          {matches.map((match) => (
+            <li key={match.address} className="border rounded-lg p-3 text-sm">
+              <div className="flex justify-between items-center gap-2">
+                <span className="font-mono break-all">{match.address}</span>
+                <Badge variant={match.likely ? "destructive" : "outline"}>
+                  {match.likely ? "Likely duplicate" : "Possible duplicate"}
+                </Badge>
+              </div>
+              <div className="flex justify-end mt-2">
+                <Button type="button" variant="outline" size="sm" disabled={busy} onClick={() => onLink(match.address)}>
+                  Link to this record
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        <Textarea
+          placeholder="Why is this a different patient? e.g. twins with a shared contact number"
+          value={justification}
+          onChange={(event) => setJustification(event.target.value)}
+        />
+        <div className="flex gap-4">
+          <Button
+            type="button"
+            disabled={busy || justification.trim().length < MIN_JUSTIFICATION_LENGTH}
+            onClick={() => onProceed(justification.trim())}
+          >
+            {busy ? "Submitting..." : "Register anyway"}
+          </Button>
+          <Button type="button" variant="outline" disabled={busy} onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from "react";
+import { Siren } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import CryptoJS from 'crypto-js';
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { useToast } from "~/hooks/use-toast";
+
+interface EmergencyAccessEntry {
+  accessId: number;
+  patientAddress: string;
+  clinician: string;
+  reasonHash: string;
+  timestamp: number;
+  reason?: string | null;
+  reasonMatches?: boolean;
+}
+
+interface EmergencyAccessReviewProps {
+  consentRegistry: Contract | null;
+  account: string;
+  // The wallet the server has linked to the session, only the admin's may read the justifications
+  verifiedWallet: string | null;
+  isAdmin: boolean;
+}
+
+// The server decrypts the justification for the admin's linked wallet, undefined when it could not be read and
+// null when only its hash was stored
+async function fetchReason(accessId: number): Promise<string | null | undefined> {
+  const response = await fetch(`/api/emergency-access?accessId=${accessId}`);
+  if (!response.ok) return undefined;
+  const { reason } = await response.json();
+  return reason;
+}
+
+export default function EmergencyAccessReview({ consentRegistry, account, verifiedWallet, isAdmin }: EmergencyAccessReviewProps) {
+  const [pending, setPending] = useState<EmergencyAccessEntry[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Lists every emergency access that has not been signed off yet, with its justification
+  const fetchPending = useCallback(async () => {
+    if (!consentRegistry) return;
+
+    const count = Number(await consentRegistry.methods.getEmergencyAccessCount().call());
+    const entries: EmergencyAccessEntry[] = [];
+    for (let accessId = 0; accessId < count; accessId++) {
+      const access = await consentRegistry.methods.getEmergencyAccess(accessId).call();
+      if (access.reviewed) continue;
+
+      const reason = verifiedWallet ? await fetchReason(accessId) : undefined;
+      entries.push({
+        accessId,
+        patientAddress: access.patientAddress,
+        clinician: access.clinician,
+        reasonHash: access.reasonHash,
+        timestamp: Number(access.timestamp),
+        reason,
+        // The stored justification must hash to the value logged on-chain
+        reasonMatches: typeof reason === "string" && '0x' + CryptoJS.SHA256(reason).toString() === access.reasonHash,
+      });
+    }
+    setPending(entries.reverse());
+  }, [consentRegistry, verifiedWallet]);
+
+  useEffect(() => {
+    if (consentRegistry) {
+      fetchPending();
+    }
+  }, [consentRegistry, fetchPending]);
+
+  const signOff = async (accessId: number) => {
+    if (!consentRegistry) return;
+
+    setSubmitting(true);
+    try {
+      await consentRegistry.methods.reviewEmergencyAccess(accessId).send({ from: account });
+
+      await fetchPending();
+      toast({
+        title: "Access signed off",
+        description: `Emergency access #${accessId} has been reviewed.`,
+      });
+    } catch (error) {
+      console.error("Error reviewing emergency access:", error);
+      toast({
+        title: "Error",
+        description: `There was an error signing off the access: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <Siren className="h-5 w-5" />
+          <span>Emergency Access Review</span>
+        </CardTitle>
+        <CardDescription>
+          Break-the-glass accesses awaiting a retrospective sign-off
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {!consentRegistry && (
+          <p className="text-sm text-gray-500">The consent registry is not deployed to the current network.</p>
+        )}
+        {consentRegistry && pending.length === 0 && (
+          <p className="text-sm text-gray-500">No emergency accesses are waiting for review.</p>
+        )}
+        {pending.map((entry) => (
+          <div key={entry.accessId} className="border rounded px-4 py-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Badge variant="destructive">#{entry.accessId}</Badge>
+                <span className="text-sm text-gray-500">{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+              </div>
+              <Button size="sm" onClick={() => signOff(entry.accessId)} disabled={!isAdmin || submitting}>
+                Sign Off
+              </Button>
+            </div>
+            <div className="space-y-1 text-sm break-all">
+              <div>
+                <span className="font-medium">Clinician: </span>
+                <span>{entry.clinician}</span>
+              </div>
+              <div>
+                <span className="font-medium">Patient ID: </span>
+                <span>{entry.patientAddress}</span>
+              </div>
+              <div>
+                <span className="font-medium">Justification: </span>
+                <span>
+                  {entry.reason === null
+                    ? 'Only the hash was stored'
+                    : entry.reason || (verifiedWallet ? 'Not found in the database' : 'Link the admin wallet to read it')}
+                </span>
+                {entry.reason && !entry.reasonMatches && (
+                  <Badge variant="destructive" className="ml-2">Does not match on-chain hash</Badge>
+                )}
+              </div>
+              <div>
+                <span className="font-medium">Reason Hash: </span>
+                <span>{entry.reasonHash}</span>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { Input } from "~/components/ui/input";
+import { searchCodes } from "~/lib/icd";
+
+interface IcdCodePickerProps {
+  table: [string, string][];
+  value: string;
+  onChange: (code: string) => void;
+  placeholder?: string;
+}
+
+// Searchable by code or wording, only a code from the table can be selected
+export default function IcdCodePicker({ table, value, onChange, placeholder }: IcdCodePickerProps) {
+  const selected = table.find(([code]) => code === value);
+  const [search, setSearch] = useState("");
+  const [open, setOpen] = useState(false);
+  const matches = searchCodes(table, search);
+
+  return (
+    <div className="relative">
+      <Input
+        value={open ? search : selected ? `${selected[0]} ${selected[1]}` : ""}
+        placeholder={placeholder}
+        onFocus={() => { setSearch(""); setOpen(true); }}
+        onBlur={() => setOpen(false)}
+        onChange={(event) => setSearch(event.target.value)}
+      />
+      {open && (
+        <ul className="absolute z-10 mt-1 w-full max-h-64 overflow-auto rounded-md border bg-white shadow">
+          {matches.length === 0 && (
+            <li className="px-3 py-2 text-sm text-muted-foreground">No matching codes</li>
+          )}
+          {matches.map(([code, label]) => (
+            <li key={code}>
+              <button
+                type="button"
+                className={`w-full text-left px-3 py-2 text-sm hover:bg-accent ${code === value ? "font-medium" : ""}`}
+                // Keeps focus in the input, otherwise the blur removes the list before the click lands
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => { onChange(code); setOpen(false); }}
+              >
+                <span className="font-mono mr-2">{code}</span>
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from "react";
+import { Layers } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import { ref, get, set, remove, type Database } from "firebase/database";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { useToast } from "~/hooks/use-toast";
+import { buildMerkleTree, merkleLeaf, type MerkleProof } from "~/lib/merkle";
+import type { HashAlgorithm } from "~/lib/hashing";
+import { institutionId, institutionPath } from "~/lib/institution";
+import { receiptDetails } from "~/lib/anchoring";
+
+interface QueuedHash {
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+}
+
+interface MerkleBatchPanelProps {
+  patientRegistry: Contract | null;
+  database: Database;
+  orgId: string;
+  account: string;
+  // Bumped by the parent whenever it queues a record, so the pending count stays current
+  refreshKey: number;
+}
+
+export default function MerkleBatchPanel({ patientRegistry, database, orgId, account, refreshKey }: MerkleBatchPanelProps) {
+  const [queue, setQueue] = useState<{ [address: string]: QueuedHash }>({});
+  const [anchoring, setAnchoring] = useState(false);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    const snapshot = await get(ref(database, institutionPath(orgId, 'merkleQueue')));
+    setQueue(snapshot.exists() ? snapshot.val() : {});
+  }, [database, orgId]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue, refreshKey]);
+
+  // Commits the queued hashes as Merkle roots, one per hashing scheme, then stores each record's inclusion proof
+  const anchorBatch = async () => {
+    if (!patientRegistry) return;
+
+    const addresses = Object.keys(queue);
+    if (addresses.length === 0) return;
+
+    // A batch records a single algorithm and schema version, so hashes made under different rules are split
+    const groups: { [scheme: string]: string[] } = {};
+    for (const address of addresses) {
+      const scheme = `${queue[address].algorithm}:${queue[address].schemaVersion}`;
+      groups[scheme] = [...(groups[scheme] || []), address];
+    }
+
+    setAnchoring(true);
+    try {
+      for (const members of Object.values(groups)) {
+        const { algorithm, schemaVersion } = queue[members[0]];
+        const tree = buildMerkleTree(members.map((address) => merkleLeaf(address, queue[address].dataHash)));
+
+        const receipt = await patientRegistry.methods.anchorMerkleRoot(
+          institutionId(orgId),
+          tree.root,
+          members.length,
+          algorithm,
+          schemaVersion
+        ).send({ from: account });
+        const batchId = Number(receipt.events.MerkleRootAnchored.returnValues.batchId);
+
+        for (let i = 0; i < members.length; i++) {
+          const merkleProof: MerkleProof = { batchId, root: tree.root, proof: tree.proofs[i] };
+          await set(ref(database, institutionPath(orgId, `patients/${members[i]}/merkleProof`)), merkleProof);
+          await remove(ref(database, institutionPath(orgId, `patients/${members[i]}/merklePending`)));
+          // The confirmation tracker marks the records anchored once the batch transaction is final
+          await set(ref(database, institutionPath(orgId, `patients/${members[i]}/anchoringStatus`)), "confirming");
+          await set(ref(database, institutionPath(orgId, `patients/${members[i]}/transactionHash`)), receipt.transactionHash);
+          await set(ref(database, institutionPath(orgId, `patients/${members[i]}/anchorReceipt`)), receiptDetails(receipt));
+          await remove(ref(database, institutionPath(orgId, `merkleQueue/${members[i]}`)));
+        }
+
+        toast({
+          title: "Batch anchored",
+          description: `${members.length} record(s) were anchored in Merkle batch #${batchId}.`,
+        });
+      }
+    } catch (error) {
+      console.error("Error anchoring Merkle batch:", error);
+      toast({
+        title: "Error",
+        description: `There was an error anchoring the batch: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      await fetchQueue();
+      setAnchoring(false);
+    }
+  };
+
+  const pendingCount = Object.keys(queue).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <Layers className="h-5 w-5" />
+          <span>Pending Merkle Batch</span>
+        </CardTitle>
+        <CardDescription>
+          Records submitted in batch mode are anchored together under a single Merkle root
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center justify-between">
+        <Badge variant={pendingCount > 0 ? "default" : "secondary"}>{pendingCount} record(s) waiting</Badge>
+        <Button onClick={anchorBatch} disabled={!patientRegistry || anchoring || pendingCount === 0}>
+          {anchoring ? "Anchoring..." : "Anchor Batch"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from "react";
+import { Paperclip } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import type { Database } from "firebase/database";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { useToast } from "~/hooks/use-toast";
+import {
+  attachDocument,
+  documentUrl,
+  fetchDocuments,
+  verifyDocument,
+  DOCUMENT_CONTENT_TYPES,
+  DOCUMENT_MAX_BYTES,
+  type DocumentVerification,
+  type StoredDocument,
+} from "~/lib/documents";
+
+interface PatientDocumentsProps {
+  documentRegistry: Contract | null;
+  database: Database;
+  orgId: string;
+  patientAddress: string;
+  account: string;
+  // Set when the record was opened through break-the-glass rather than consent
+  emergencyAccessId?: string;
+}
+
+const STATUS_LABELS: { [status in DocumentVerification["status"]]: string } = {
+  verified: "Verified",
+  compromised: "Compromised",
+  missing: "Missing from storage",
+};
+
+export default function PatientDocuments({ documentRegistry, database, orgId, patientAddress, account, emergencyAccessId }: PatientDocumentsProps) {
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  // documentId => result of the last verification
+  const [verifications, setVerifications] = useState<{ [documentId: number]: DocumentVerification }>({});
+  const { toast } = useToast();
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      setDocuments(await fetchDocuments(database, orgId, patientAddress));
+      setVerifications({});
+    } catch (error) {
+      console.error("Error loading documents:", error);
+      toast({
+        title: "Error",
+        description: `There was an error loading the documents: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  }, [database, orgId, patientAddress, toast]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const uploadDocument = async () => {
+    if (!documentRegistry || !file) return;
+
+    if (file.size > DOCUMENT_MAX_BYTES || !DOCUMENT_CONTENT_TYPES.includes(file.type)) {
+      toast({
+        title: "Error",
+        description: `Please choose a PDF, PNG, JPEG or text file of at most ${DOCUMENT_MAX_BYTES / (1024 * 1024)} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await attachDocument(documentRegistry, database, orgId, patientAddress, file, account);
+      setFile(null);
+      await loadDocuments();
+      toast({
+        title: "Success",
+        description: `${file.name} was stored and its hash anchored on the blockchain`,
+      });
+    } catch (error) {
+      console.error("Error attaching document:", error);
+      toast({
+        title: "Error",
+        description: `There was an error attaching the document: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const downloadDocument = async (document: StoredDocument) => {
+    try {
+      const response = await fetch(documentUrl(patientAddress, document.contentHash, emergencyAccessId));
+      if (!response.ok) {
+        throw new Error("The document could not be downloaded");
+      }
+      const blob = new Blob([await response.arrayBuffer()], { type: document.contentType });
+      const link = window.document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = document.fileName;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error("Error downloading document:", error);
+      toast({
+        title: "Error",
+        description: `There was an error downloading the document: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const checkDocument = async (document: StoredDocument) => {
+    if (!documentRegistry) return;
+
+    try {
+      const result = await verifyDocument(documentRegistry, patientAddress, document, emergencyAccessId);
+      setVerifications((current) => ({ ...current, [document.documentId]: result }));
+      if (result.status !== "verified") {
+        toast({
+          title: "Data Integrity Compromised",
+          description: `${document.fileName} no longer matches its anchored hash.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error verifying document:", error);
+      toast({
+        title: "Error",
+        description: `There was an error verifying the document: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <Paperclip className="h-5 w-5" />
+          <span>Documents</span>
+        </CardTitle>
+        <CardDescription>
+          Pathology reports, imaging summaries and consent forms, each anchored by its SHA-256 hash
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <Input
+            type="file"
+            accept={DOCUMENT_CONTENT_TYPES.join(",")}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="max-w-md"
+          />
+          <Button onClick={uploadDocument} disabled={!documentRegistry || !file || uploading}>
+            {uploading ? "Uploading..." : "Attach Document"}
+          </Button>
+        </div>
+
+        {documents.length === 0 && (
+          <p className="text-sm text-muted-foreground">No documents are attached to this patient.</p>
+        )}
+
+        <ul className="space-y-3">
+          {documents.map((document) => {
+            const verification = verifications[document.documentId];
+            return (
+              <li key={document.documentId} className="border rounded-md p-3 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{document.fileName}</span>
+                  <Badge variant="secondary">{(document.size / 1024).toFixed(1)} KB</Badge>
+                  {verification && (
+                    <Badge variant={verification.status === "verified" ? "outline" : "destructive"}>
+                      {STATUS_LABELS[verification.status]}
+                    </Badge>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => downloadDocument(document)}>
+                    Download
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => checkDocument(document)} disabled={!documentRegistry}>
+                    Verify
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground break-all">
+                  Uploaded by {document.uploadedBy} on {new Date(document.timestamp * 1000).toLocaleString()} • {document.transactionHash}
+                </p>
+                {verification?.status === "compromised" && (
+                  <p className="text-xs text-red-700 break-all">
+                    Stored Hash in Blockchain: {verification.storedHash}<br />
+                    Computed Hash from Storage: {verification.currentHash}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Eraser } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import { ref, get, type Database } from "firebase/database";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { useToast } from "~/hooks/use-toast";
+import { erasePatient, ErasureReason, ERASURE_REASON_LABELS } from "~/lib/erasure";
+import { institutionId, institutionPath } from "~/lib/institution";
+
+interface PatientErasureProps {
+  patientRegistry: Contract | null;
+  database: Database;
+  orgId: string;
+  account: string;
+  isAdmin: boolean;
+}
+
+export default function PatientErasure({ patientRegistry, database, orgId, account, isAdmin }: PatientErasureProps) {
+  const [address, setAddress] = useState<string>("");
+  const [reason, setReason] = useState<ErasureReason>(ErasureReason.PatientRequest);
+  const [confirming, setConfirming] = useState(false);
+  const [confirmation, setConfirmation] = useState<string>("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setConfirming(false);
+    setConfirmation("");
+  };
+
+  // First confirmation: the admin acknowledges that the erasure cannot be undone
+  const requestErasure = async () => {
+    if (!patientRegistry) return;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address.trim())) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid patient address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const erasure = await patientRegistry.methods.getErasure(address.trim()).call();
+    if (erasure.erased) {
+      toast({
+        title: "Error",
+        description: "This patient record has already been erased",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The data is purged from the active organization's node, so it has to be the one that owns the patient.
+    // Merkle-batched, draft and failed records have no owner on chain, they only have to be in the organization's node
+    const owner: string = await patientRegistry.methods.getPatientInstitution(address.trim()).call();
+    const owned = Number(owner) === 0
+      ? (await get(ref(database, institutionPath(orgId, `patients/${address.trim()}`)))).exists()
+      : owner.toLowerCase() === institutionId(orgId).toLowerCase();
+    if (!owned) {
+      toast({
+        title: "Error",
+        description: "This patient is not registered with your active organization",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (window.confirm(`Erase all data for ${address.trim()}? This cannot be undone.`)) {
+      setConfirming(true);
+    }
+  };
+
+  // Second confirmation: the address has to be typed again before anything is sent
+  const confirmErasure = async () => {
+    if (!patientRegistry) return;
+
+    setSubmitting(true);
+    try {
+      await erasePatient(patientRegistry, database, orgId, address.trim(), reason, account);
+
+      setAddress("");
+      reset();
+      toast({
+        title: "Record erased",
+        description: "The patient data was purged and the erasure was recorded on the blockchain.",
+      });
+    } catch (error) {
+      console.error("Error erasing patient:", error);
+      toast({
+        title: "Error",
+        description: `There was an error erasing the record: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-xl">
+          <Eraser className="h-5 w-5" />
+          <span>Right to Erasure</span>
+        </CardTitle>
+        <CardDescription>
+          Purges the patient data from the database and leaves an erasure tombstone on the blockchain
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <Input
+            placeholder="Patient address"
+            value={address}
+            onChange={(e) => {
+              setAddress(e.target.value);
+              reset();
+            }}
+            className="max-w-md"
+          />
+          <Select value={String(reason)} onValueChange={(value) => setReason(Number(value) as ErasureReason)}>
+            <SelectTrigger className="max-w-xs">
+              <SelectValue placeholder="Reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ERASURE_REASON_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="destructive" onClick={requestErasure} disabled={!isAdmin || !patientRegistry || confirming || submitting}>
+            Erase Record
+          </Button>
+        </div>
+
+        {confirming && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded space-y-3">
+            <p className="text-sm">
+              Type the patient address again to confirm. The database record will be deleted permanently.
+            </p>
+            <div className="flex flex-col md:flex-row gap-4">
+              <Input
+                placeholder="Patient address"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                className="max-w-md bg-white"
+              />
+              <Button
+                variant="destructive"
+                onClick={confirmErasure}
+                disabled={submitting || confirmation.trim().toLowerCase() !== address.trim().toLowerCase()}
+              >
+                {submitting ? "Erasing..." : "Confirm Erasure"}
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={submitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { QRCodeSVG } from "qrcode.react";
+import { Printer } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+
+interface PatientIdCardProps {
+  patientId: string;
+  patientName: string;
+  // Only for a generated id, it is the one copy of the key the patient manages their consents with
+  patientKey?: string;
+  onDismiss: () => void;
+}
+
+// Everything else on the page is hidden when printing, so only the card ends up on paper
+export default function PatientIdCard({ patientId, patientName, patientKey, onDismiss }: PatientIdCardProps) {
+  return (
+    <Card className="print:shadow-none print:border-2">
+      <CardHeader>
+        <CardTitle className="text-xl">Patient ID Card</CardTitle>
+        <CardDescription>{patientName}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col items-start gap-2">
+          <QRCodeSVG value={patientId} size={144} />
+          <span className="text-sm font-medium">Patient ID</span>
+        </div>
+        <p className="font-mono text-sm break-all">{patientId}</p>
+        {patientKey && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="flex flex-col items-start gap-2">
+              <QRCodeSVG value={patientKey} size={144} />
+              <span className="text-sm font-medium">Patient key</span>
+            </div>
+            <p className="font-mono text-xs break-all">{patientKey}</p>
+            <p className="text-xs text-muted-foreground">
+              Import this key into a wallet to grant and revoke access to your record. Keep it private, it is not
+              stored anywhere else and cannot be issued again.
+            </p>
+          </div>
+        )}
+        <div className="flex gap-2 print:hidden">
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print Card
+          </Button>
+          <Button variant="outline" onClick={onDismiss}>
+            Done
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
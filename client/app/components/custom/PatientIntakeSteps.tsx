@@ -0,0 +1,332 @@
+import type { FieldPath, UseFormReturn } from "react-hook-form";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "~/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import IcdCodePicker from "~/components/custom/IcdCodePicker";
+import { MORPHOLOGY, TOPOGRAPHY } from "~/lib/icd-tables";
+import { toIcd10 } from "~/lib/icd";
+import {
+  BASIS_OF_DIAGNOSIS,
+  GENDERS,
+  LATERALITY,
+  M_CATEGORIES,
+  N_CATEGORIES,
+  STAGE_GROUPS,
+  T_CATEGORIES,
+  TUMOUR_GRADES,
+  changedFields,
+  type PatientFormValues,
+} from "~/lib/patient";
+
+type PatientForm = UseFormReturn<PatientFormValues>;
+type PatientField = FieldPath<PatientFormValues>;
+
+// TNM categories are shown as they are coded, the other option maps carry a display label
+const asOptions = (values: readonly string[]) => Object.fromEntries(values.map((value) => [value, value]));
+
+export const FIELD_LABELS: { [field in PatientField]: string } = {
+  address: "Patient ID",
+  firstName: "First name",
+  lastName: "Last name",
+  contactNumber: "Contact number",
+  gender: "Gender",
+  age: "Age",
+  dateOfBirth: "Date of birth",
+  email: "Email",
+  diagnosisDate: "Date of diagnosis",
+  basisOfDiagnosis: "Basis of diagnosis",
+  topographyCode: "Primary site (ICD-O-3 topography)",
+  morphologyCode: "Histology (ICD-O-3 morphology)",
+  histology: "Pathology report wording",
+  grade: "Grade",
+  laterality: "Laterality",
+  tCategory: "T category",
+  nCategory: "N category",
+  mCategory: "M category",
+  stageGroup: "Stage group",
+};
+
+const FIELD_OPTIONS: { [field in PatientField]?: { [value: string]: string } } = {
+  gender: GENDERS,
+  // Shown with the code in front on the review step
+  topographyCode: Object.fromEntries(TOPOGRAPHY.map(([code, label]) => [code, `${code} ${label}`])),
+  morphologyCode: Object.fromEntries(MORPHOLOGY.map(([code, label]) => [code, `${code} ${label}`])),
+  basisOfDiagnosis: BASIS_OF_DIAGNOSIS,
+  grade: TUMOUR_GRADES,
+  laterality: LATERALITY,
+  tCategory: asOptions(T_CATEGORIES),
+  nCategory: asOptions(N_CATEGORIES),
+  mCategory: asOptions(M_CATEGORIES),
+  stageGroup: asOptions(STAGE_GROUPS),
+};
+
+function TextField({ form, name, placeholder, type }: { form: PatientForm; name: PatientField; placeholder?: string; type?: string }) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{FIELD_LABELS[name]}</FormLabel>
+          <FormControl>
+            <Input type={type} placeholder={placeholder ?? FIELD_LABELS[name]} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Controlled by value, so a step that is left and revisited still shows the selection
+function OptionField({ form, name, placeholder }: { form: PatientForm; name: PatientField; placeholder: string }) {
+  const options = FIELD_OPTIONS[name] ?? {};
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{FIELD_LABELS[name]}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value || undefined}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder={placeholder} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {Object.entries(options).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Without onGenerateId the patient ID is read-only, an existing record cannot move to another address
+export function DemographicsStep({ form, onGenerateId }: { form: PatientForm; onGenerateId?: () => void }) {
+  return (
+    <div className="space-y-8">
+      <FormField
+        control={form.control}
+        name="address"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Patient ID</FormLabel>
+            <div className="flex gap-2">
+              <FormControl>
+                <Input placeholder="Patient ID" className="font-mono" readOnly={!onGenerateId} {...field} />
+              </FormControl>
+              {onGenerateId && (
+                <Button type="button" variant="outline" onClick={onGenerateId}>
+                  Generate
+                </Button>
+              )}
+            </div>
+            {onGenerateId && (
+              <FormDescription>
+                Generated for new patients as an identifier only. Enter the patient&apos;s own wallet address instead if they
+                will grant and revoke consent themselves.
+              </FormDescription>
+            )}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TextField form={form} name="firstName" />
+        <TextField form={form} name="lastName" />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 min-w-full">
+        <TextField form={form} name="contactNumber" placeholder="011-12345678" />
+        <OptionField form={form} name="gender" placeholder="Select gender" />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TextField form={form} name="dateOfBirth" type="date" />
+        <TextField form={form} name="age" />
+      </div>
+      <TextField form={form} name="email" />
+    </div>
+  );
+}
+
+function CodeField({ form, name, table, placeholder }: { form: PatientForm; name: PatientField; table: [string, string][]; placeholder: string }) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{FIELD_LABELS[name]}</FormLabel>
+          <FormControl>
+            <IcdCodePicker table={table} value={field.value} onChange={field.onChange} placeholder={placeholder} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function DiagnosisStep({ form }: { form: PatientForm }) {
+  const [topographyCode, morphologyCode] = form.watch(["topographyCode", "morphologyCode"]);
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TextField form={form} name="diagnosisDate" type="date" />
+        <OptionField form={form} name="basisOfDiagnosis" placeholder="Select basis of diagnosis" />
+      </div>
+      <CodeField form={form} name="topographyCode" table={TOPOGRAPHY} placeholder="Search by site or code, e.g. breast or C50" />
+      <div className="space-y-2">
+        <CodeField form={form} name="morphologyCode" table={MORPHOLOGY} placeholder="Search by histology or code, e.g. ductal or 8500" />
+        {topographyCode && morphologyCode && (
+          <p className="text-sm text-muted-foreground">ICD-10: {toIcd10(topographyCode, morphologyCode)}</p>
+        )}
+      </div>
+      <TextField form={form} name="histology" placeholder="e.g. Invasive ductal carcinoma, NST" />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <OptionField form={form} name="grade" placeholder="Select grade" />
+        <OptionField form={form} name="laterality" placeholder="Select laterality" />
+      </div>
+    </div>
+  );
+}
+
+export function StagingStep({ form }: { form: PatientForm }) {
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <OptionField form={form} name="tCategory" placeholder="T" />
+        <OptionField form={form} name="nCategory" placeholder="N" />
+        <OptionField form={form} name="mCategory" placeholder="M" />
+      </div>
+      <FormField
+        control={form.control}
+        name="stageGroup"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{FIELD_LABELS.stageGroup}</FormLabel>
+            <Select onValueChange={(value) => field.onChange(value === "none" ? "" : value)} value={field.value || "none"}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="none">Not staged</SelectItem>
+                {STAGE_GROUPS.map((group) => (
+                  <SelectItem key={group} value={group}>Stage {group}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Leave as not staged for sites without a stage grouping.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+interface ReviewSection {
+  title: string;
+  fields: readonly PatientField[];
+}
+
+export function IntakeProgress({ sections, step }: { sections: { title: string }[]; step: number }) {
+  return (
+    <ol className="flex gap-2 text-sm">
+      {sections.map((section, index) => (
+        <li
+          key={section.title}
+          className={`flex-1 border-b-4 pb-1 ${index <= step ? "border-primary font-medium" : "border-muted text-muted-foreground"}`}
+        >
+          {index + 1}. {section.title}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+const displayValue = (name: PatientField, value: string) => FIELD_OPTIONS[name]?.[value] ?? (value || "—");
+
+// Read-only summary of every step, each section links back to the step it came from
+export function ReviewStep({ form, sections, onEdit }: { form: PatientForm; sections: ReviewSection[]; onEdit: (section: number) => void }) {
+  const values = form.getValues();
+  return (
+    <div className="space-y-6">
+      {sections.map((section, index) => (
+        <div key={section.title} className="border rounded-lg p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="font-semibold">{section.title}</h2>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onEdit(index)}>
+              Edit
+            </Button>
+          </div>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            {section.fields.map((name) => (
+              <div key={name}>
+                <dt className="text-muted-foreground">{FIELD_LABELS[name]}</dt>
+                <dd className={name === "address" ? "font-mono break-all" : ""}>
+                  {displayValue(name, values[name])}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Review step of the edit route, only the fields that differ from the stored version are listed
+export function ChangePreview({ form, original, sections, onEdit }: { form: PatientForm; original: PatientFormValues; sections: ReviewSection[]; onEdit: (section: number) => void }) {
+  const values = form.getValues();
+  const changed = changedFields(original, values);
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing has been changed yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.map((section, index) => {
+        const fields = section.fields.filter((name) => changed.includes(name));
+        if (fields.length === 0) return null;
+        return (
+          <div key={section.title} className="border rounded-lg p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h2 className="font-semibold">{section.title}</h2>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onEdit(index)}>
+                Edit
+              </Button>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal pb-1">Field</th>
+                  <th className="font-normal pb-1">Stored</th>
+                  <th className="font-normal pb-1">New</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((name) => (
+                  <tr key={name} className="align-top">
+                    <td className="pr-4 py-1">{FIELD_LABELS[name]}</td>
+                    <td className="pr-4 py-1 text-red-700 line-through">{displayValue(name, original[name])}</td>
+                    <td className="py-1 text-green-700">{displayValue(name, values[name])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { AlertOctagon } from "lucide-react";
+import { cn } from "~/lib/utils";
+
+interface RegistryPausedBannerProps {
+  paused: boolean;
+  className?: string;
+}
+
+export default function RegistryPausedBanner({ paused, className }: RegistryPausedBannerProps) {
+  if (!paused) return null;
+
+  return (
+    <div className={cn("flex items-center space-x-3 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded", className)}>
+      <AlertOctagon className="h-5 w-5 shrink-0" />
+      <span>
+        The patient registry is paused by the admin. Registrations, Merkle anchoring and erasures will be rejected
+        until it is resumed.
+      </span>
+    </div>
+  );
+}
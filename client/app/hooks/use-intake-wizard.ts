@@ -0,0 +1,51 @@
+import { useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  demographicsSchema,
+  diagnosisFieldsSchema,
+  diagnosisSchema,
+  formSchema,
+  patientFieldsSchema,
+  stagingSchema,
+  type PatientFormValues,
+} from "~/lib/patient";
+
+// Each step only validates its own fields, the review step checks the whole record again before submitting
+export const INTAKE_STEPS = [
+  { title: "Demographics", schema: demographicsSchema, fields: Object.keys(demographicsSchema.shape) as (keyof PatientFormValues)[] },
+  { title: "Diagnosis", schema: diagnosisSchema, fields: Object.keys(diagnosisFieldsSchema.shape) as (keyof PatientFormValues)[] },
+  { title: "TNM Staging", schema: stagingSchema, fields: Object.keys(stagingSchema.shape) as (keyof PatientFormValues)[] },
+  { title: "Review", schema: formSchema, fields: [] },
+];
+export const REVIEW_STEP = INTAKE_STEPS.length - 1;
+
+export function emptyPatientValues() {
+  return Object.fromEntries(Object.keys(patientFieldsSchema.shape).map((field) => [field, ""])) as PatientFormValues;
+}
+
+export function useIntakeWizard(defaultValues: PatientFormValues) {
+  const [step, setStep] = useState(0);
+  // The resolver is created once, it reads the current step from here
+  const stepRef = useRef(0);
+
+  const form = useForm<PatientFormValues>({
+    resolver: (values, context, options) => zodResolver(INTAKE_STEPS[stepRef.current].schema)(values, context, options),
+    defaultValues,
+    // Fields of the steps that are not shown keep their values
+    shouldUnregister: false,
+  });
+
+  const goToStep = (next: number) => {
+    stepRef.current = next;
+    setStep(next);
+  };
+
+  const nextStep = async () => {
+    if (await form.trigger()) {
+      goToStep(step + 1);
+    }
+  };
+
+  return { form, step, goToStep, nextStep };
+}
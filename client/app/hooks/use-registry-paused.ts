@@ -0,0 +1,23 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Contract } from "web3-eth-contract";
+
+// Reads the PatientRegistry circuit breaker, refresh is for pages that pause or resume it themselves
+export function useRegistryPaused(patientRegistry: Contract | null) {
+  const [paused, setPaused] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!patientRegistry) return;
+
+    try {
+      setPaused(await patientRegistry.methods.paused().call());
+    } catch (error) {
+      console.error("Error reading registry state:", error);
+    }
+  }, [patientRegistry]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { paused, refresh };
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import { useAuth } from "@clerk/remix";
+import { useRevalidator } from "@remix-run/react";
+import { proveWallet } from "~/lib/wallet-proof";
+
+// Links the connected wallet to the session when the loader has not seen it yet, then reloads so the
+// loader can decrypt what the wallet has consent for. verifiedWallet is what the loader read from the cookie
+export function useWalletProof(account: string, verifiedWallet: string | null) {
+  const { userId } = useAuth();
+  const { revalidate } = useRevalidator();
+  // One signature request per wallet, the effect runs again while the reload is still in flight
+  const requested = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!userId || !account || verifiedWallet?.toLowerCase() === account.toLowerCase()) return;
+    if (requested.current === account) return;
+    requested.current = account;
+
+    proveWallet(userId, account)
+      .then(() => revalidate())
+      .catch((error) => console.error("Error linking wallet:", error));
+  }, [userId, account, verifiedWallet, revalidate]);
+}
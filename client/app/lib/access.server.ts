@@ -0,0 +1,107 @@
+import { readOnlyContract } from "~/lib/chain.server";
+import { getIndexedConsent, getIndexedHistory, startIndexer } from "~/lib/indexer.server";
+import { institutionId } from "~/lib/institution";
+import type { ErasedRecord, ErasureReason } from "~/lib/erasure";
+import ConsentRegistryABI from "~/routes/artifacts/ConsentRegistry.json";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+
+// How long a logged break-the-glass access keeps the record open for the clinician who logged it
+const EMERGENCY_ACCESS_WINDOW_SECONDS = Number(process.env.EMERGENCY_ACCESS_WINDOW_SECONDS || 4 * 60 * 60);
+
+// The patient's consent grant, read from the chain rather than from anything the browser reports
+export async function hasConsent(patientAddress: string, wallet: string): Promise<boolean> {
+  const consents = await readOnlyContract(ConsentRegistryABI);
+  return consents.methods.hasActiveConsent(patientAddress, wallet).call();
+}
+
+// An EmergencyAccess logged by this wallet for this patient, recently enough to still count
+export async function hasEmergencyAccess(patientAddress: string, wallet: string, accessId: string): Promise<boolean> {
+  const consents = await readOnlyContract(ConsentRegistryABI);
+  if (!/^\d+$/.test(accessId) || Number(accessId) >= Number(await consents.methods.getEmergencyAccessCount().call())) {
+    return false;
+  }
+
+  const access = await consents.methods.getEmergencyAccess(accessId).call();
+  return (
+    access.patientAddress.toLowerCase() === patientAddress.toLowerCase() &&
+    access.clinician.toLowerCase() === wallet.toLowerCase() &&
+    Number(access.timestamp) + EMERGENCY_ACCESS_WINDOW_SECONDS > Math.floor(Date.now() / 1000)
+  );
+}
+
+// The on-chain tombstone of a record whose Firebase node says it was erased. The flag is writable from the
+// browser, so without a tombstone the record is checked like any other
+async function confirmedErasure(patientAddress: string, record: { transactionHash?: string }): Promise<ErasedRecord | null> {
+  const registry = await readOnlyContract(PatientRegistryABI);
+  const erasure = await registry.methods.getErasure(patientAddress).call();
+  if (!erasure.erased) {
+    return null;
+  }
+  return {
+    address: patientAddress,
+    erased: true,
+    erasedAt: Number(erasure.timestamp),
+    reason: Number(erasure.reason) as ErasureReason,
+    transactionHash: record.transactionHash || "",
+  };
+}
+
+// A fresh consent index rules out the patients without a grant, saving a call for each of them. A grant it does
+// have is checked on-chain all the same, it may have been revoked or have expired since the last sync
+async function consented(patientAddress: string, wallet: string) {
+  return getIndexedConsent(patientAddress, wallet) !== false && hasConsent(patientAddress, wallet);
+}
+
+// Whether the registry binds the wallet to this organization as one of its clinicians
+async function isOwnClinician(wallet: string, orgId: string): Promise<boolean> {
+  const registry = await readOnlyContract(PatientRegistryABI);
+  const bound: string = await registry.methods.getClinicianInstitution(wallet).call();
+  return bound === institutionId(orgId);
+}
+
+// A patient the chain attributes to another institution, records not indexed yet belong to the node they were read from
+function registeredElsewhere(patientAddress: string, orgId: string) {
+  const [first] = getIndexedHistory(patientAddress);
+  return first !== undefined && first.institutionId !== institutionId(orgId);
+}
+
+// The institution's own clinicians read the records it registered. Any other wallet needs the patient's consent,
+// granted with their own wallet or with the key handed over with a generated id
+export async function canRead(patientAddress: string, wallet: string, orgId: string, emergencyAccessId?: string): Promise<boolean> {
+  startIndexer();
+  return (await isOwnClinician(wallet, orgId) && !registeredElsewhere(patientAddress, orgId))
+    || await consented(patientAddress, wallet)
+    || (emergencyAccessId !== undefined && await hasEmergencyAccess(patientAddress, wallet, emergencyAccessId));
+}
+
+// Splits decrypted records into the ones the wallet may read and the addresses of the rest, same rules as canRead.
+// Records erased on-chain hold no patient data and come back as their tombstone only
+export async function readableRecords<T extends object>(
+  records: { [address: string]: T },
+  wallet: string,
+  orgId: string,
+  emergencyAccessId?: string
+) {
+  startIndexer();
+  // Asked once for the whole list, not once per patient
+  const ownClinician = await isOwnClinician(wallet, orgId);
+  const readable: { [address: string]: T | ErasedRecord } = {};
+  const restricted: string[] = [];
+  for (const [address, record] of Object.entries(records)) {
+    const tombstone = (record as { erased?: boolean }).erased ? await confirmedErasure(address, record) : null;
+    if (tombstone) {
+      readable[address] = tombstone;
+      continue;
+    }
+
+    const allowed = (ownClinician && !registeredElsewhere(address, orgId))
+      || await consented(address, wallet)
+      || (emergencyAccessId !== undefined && await hasEmergencyAccess(address, wallet, emergencyAccessId));
+    if (allowed) {
+      readable[address] = record;
+    } else {
+      restricted.push(address);
+    }
+  }
+  return { readable, restricted };
+}
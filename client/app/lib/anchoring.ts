@@ -0,0 +1,153 @@
+import { ref, get, remove, set, update, type Database } from "firebase/database";
+import type { ContractSendMethod } from "web3-eth-contract";
+import type { TransactionReceipt } from "web3-core";
+import type { HashAlgorithm } from "~/lib/hashing";
+import { institutionPath } from "~/lib/institution";
+
+// draft: written to Firebase, nothing sent yet. pending: a transaction is on its way.
+// confirming: mined, but not yet buried under the confirmation depth. anchored: final on chain.
+// failed: rejected or reverted, the hash waits in the retry queue
+export type AnchoringStatus = "draft" | "pending" | "confirming" | "anchored" | "failed";
+
+export const ANCHORING_STATUS_LABELS: { [status in AnchoringStatus]: string } = {
+  draft: "Draft",
+  pending: "Pending",
+  confirming: "Confirming",
+  anchored: "Anchored",
+  failed: "Failed",
+};
+
+// Stored under patients/{address}/anchorReceipt and kept current by the confirmation tracker.
+// The block fields are missing while the transaction is not in a block
+export interface AnchorReceipt {
+  transactionHash: string;
+  blockNumber?: number;
+  blockHash?: string;
+  gasUsed?: number;
+  from?: string;
+  // The block holding the transaction counts as the first one
+  confirmations: number;
+  // Set once a reorg has moved the transaction out of the block it was first mined in
+  reorgedFromBlock?: number;
+  // When the transaction was handed to the wallet or relayer, a pending one is given up on after a while
+  submittedAt?: number;
+}
+
+export function receiptDetails(receipt: TransactionReceipt, head = receipt.blockNumber): AnchorReceipt {
+  return {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    gasUsed: receipt.gasUsed,
+    from: receipt.from,
+    confirmations: head - receipt.blockNumber + 1,
+  };
+}
+
+export interface AnchorRequest {
+  patientAddress: string;
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+}
+
+// Stored under anchorQueue/{address}, so a failed anchor survives a reload and can be re-submitted later
+export interface RetryEntry extends Omit<AnchorRequest, "patientAddress"> {
+  attempts: number;
+  lastError: string;
+  failedAt: number;
+}
+
+// Reports the hash as soon as the wallet or relayer has one. Resolves with the receipt once mined,
+// or with null when the transaction was only handed off and its outcome is not known yet
+export type AnchorSender = (onSubmitted: (transactionHash: string) => void) => Promise<TransactionReceipt | null>;
+
+// web3's typings resolve send() with the contract, at runtime it is the transaction receipt
+export function walletSender(method: ContractSendMethod, account: string): AnchorSender {
+  return (onSubmitted) => method.send({ from: account })
+    .on("transactionHash", onSubmitted)
+    .then((receipt) => receipt as unknown as TransactionReceipt);
+}
+
+// Both are still waiting on the chain, the confirmation tracker moves them along
+export const isTracked = (status: AnchoringStatus) => status === "pending" || status === "confirming";
+
+// Records written before statuses were tracked are judged by what they carry
+export function anchoringStatusOf(record: { anchoringStatus?: AnchoringStatus; transactionHash?: string; merklePending?: boolean; merkleProof?: unknown }): AnchoringStatus {
+  if (record.anchoringStatus) return record.anchoringStatus;
+  if (record.merklePending) return "pending";
+  return record.transactionHash || record.merkleProof ? "anchored" : "draft";
+}
+
+export async function setAnchoringStatus(database: Database, orgId: string, patientAddress: string, status: AnchoringStatus) {
+  await update(ref(database, institutionPath(orgId, `patients/${patientAddress}`)), { anchoringStatus: status });
+}
+
+// Sends one transaction for all the requests and keeps their records' statuses and the retry queue in step with it.
+// A mined transaction is only confirming, it counts as anchored once the tracker has seen it reach the confirmation depth.
+// An error after the hash came back, a timeout waiting for the receipt say, leaves the records pending, the transaction
+// may still be mined and the tracker fails and queues them again if it reverts or is dropped
+export async function anchorWithStatus(database: Database, orgId: string, requests: AnchorRequest[], send: AnchorSender) {
+  const patientRef = (request: AnchorRequest) => ref(database, institutionPath(orgId, `patients/${request.patientAddress}`));
+  const queueRef = (request: AnchorRequest) => ref(database, institutionPath(orgId, `anchorQueue/${request.patientAddress}`));
+
+  // Written from the sender's callback, awaited before the later writes so a slow one cannot overwrite them
+  let submitted: Promise<unknown> = Promise.resolve();
+  let submittedHash: string | null = null;
+  try {
+    const receipt = await send((transactionHash) => {
+      submittedHash = transactionHash;
+      submitted = Promise.all(requests.map((request) => update(patientRef(request), {
+        anchoringStatus: "pending",
+        transactionHash,
+        anchorReceipt: { transactionHash, confirmations: 0, submittedAt: Math.floor(Date.now() / 1000) },
+      })));
+    });
+    await submitted;
+
+    if (receipt) {
+      for (const request of requests) {
+        await update(patientRef(request), {
+          anchoringStatus: "confirming",
+          transactionHash: receipt.transactionHash,
+          anchorReceipt: receiptDetails(receipt),
+          anchoringError: null,
+        });
+        await remove(queueRef(request));
+      }
+    }
+    return receipt ? receipt.transactionHash : null;
+  } catch (error) {
+    const message = (error as Error).message;
+    await submitted.catch((submitError) => console.error("Error recording submitted anchor:", submitError));
+    if (submittedHash) {
+      console.error("Error waiting for the anchoring receipt, left to the confirmation tracker:", error);
+      return null;
+    }
+    for (const request of requests) {
+      await update(patientRef(request), { anchoringStatus: "failed", anchoringError: message });
+      await queueRetry(database, orgId, request, message);
+    }
+    throw error;
+  }
+}
+
+// Puts the hash in the retry queue, or counts another attempt when it is already there
+export async function queueRetry(database: Database, orgId: string, request: AnchorRequest, message: string) {
+  const queueRef = ref(database, institutionPath(orgId, `anchorQueue/${request.patientAddress}`));
+  const previous = await get(queueRef);
+  const entry: RetryEntry = {
+    dataHash: request.dataHash,
+    algorithm: request.algorithm,
+    schemaVersion: request.schemaVersion,
+    attempts: previous.exists() ? (previous.val() as RetryEntry).attempts + 1 : 1,
+    lastError: message,
+    failedAt: Math.floor(Date.now() / 1000),
+  };
+  await set(queueRef, entry);
+}
+
+export async function fetchRetryQueue(database: Database, orgId: string): Promise<{ [address: string]: RetryEntry }> {
+  const snapshot = await get(ref(database, institutionPath(orgId, "anchorQueue")));
+  return snapshot.exists() ? snapshot.val() : {};
+}
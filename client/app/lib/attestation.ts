@@ -0,0 +1,64 @@
+import type { Contract } from "web3-eth-contract";
+import type { HashAlgorithm } from "~/lib/hashing";
+
+// Must match DOMAIN_TYPEHASH and ATTESTATION_TYPEHASH in PatientRegistry.sol
+const ATTESTATION_TYPES = {
+  EIP712Domain: [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "verifyingContract", type: "address" },
+  ],
+  Attestation: [
+    { name: "patientAddress", type: "address" },
+    { name: "institutionId", type: "bytes32" },
+    { name: "dataHash", type: "bytes32" },
+    { name: "algorithm", type: "uint8" },
+    { name: "schemaVersion", type: "uint16" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export interface AttestationMessage {
+  patientAddress: string;
+  institutionId: string;
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+  nonce: number;
+}
+
+export interface SignedAttestation {
+  clinician: string;
+  signature: string;
+}
+
+export function buildAttestation(registryAddress: string, chainId: number, message: AttestationMessage) {
+  return {
+    types: ATTESTATION_TYPES,
+    primaryType: "Attestation",
+    domain: { name: "PatientRegistry", version: "1", chainId, verifyingContract: registryAddress },
+    message,
+  };
+}
+
+// Asks the clinician's wallet to sign the attestation, no transaction or gas is involved
+export async function signAttestation(
+  registry: Contract,
+  clinician: string,
+  message: Omit<AttestationMessage, "nonce">
+): Promise<SignedAttestation> {
+  if (!window.ethereum) {
+    throw new Error("A browser wallet is needed to sign the attestation");
+  }
+
+  const nonce = Number(await registry.methods.getAttestationNonce(clinician).call());
+  const chainId = parseInt(await window.ethereum.request({ method: "eth_chainId" }) as string, 16);
+  const typedData = buildAttestation(registry.options.address, chainId, { ...message, nonce });
+
+  const signature = await window.ethereum.request({
+    method: "eth_signTypedData_v4",
+    params: [clinician, JSON.stringify(typedData)],
+  }) as string;
+  return { clinician, signature };
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getStorage, ref, uploadBytes, getBytes, deleteObject } from "firebase/storage";
+import { app } from "firebaseConfig";
+
+// "firebase" in production, "local" keeps the files in BLOB_LOCAL_DIR for development
+const BLOB_BACKEND = process.env.BLOB_BACKEND || "firebase";
+const BLOB_LOCAL_DIR = path.resolve(process.env.BLOB_LOCAL_DIR || ".blobs");
+
+export interface BlobStore {
+  put(key: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<ArrayBuffer | null>;
+  // Removing a key that does not exist is not an error
+  remove(key: string): Promise<void>;
+}
+
+const firebaseStore: BlobStore = {
+  async put(key, bytes, contentType) {
+    await uploadBytes(ref(getStorage(app), key), bytes, { contentType });
+  },
+  async get(key) {
+    try {
+      return await getBytes(ref(getStorage(app), key));
+    } catch (error) {
+      if ((error as { code?: string }).code === "storage/object-not-found") return null;
+      throw error;
+    }
+  },
+  async remove(key) {
+    try {
+      await deleteObject(ref(getStorage(app), key));
+    } catch (error) {
+      if ((error as { code?: string }).code !== "storage/object-not-found") throw error;
+    }
+  },
+};
+
+const localStore: BlobStore = {
+  async put(key, bytes) {
+    const file = path.join(BLOB_LOCAL_DIR, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, bytes);
+  },
+  async get(key) {
+    try {
+      // Copied out of the Buffer, which may be a view into a larger shared pool
+      return new Uint8Array(await fs.readFile(path.join(BLOB_LOCAL_DIR, key))).buffer;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  },
+  async remove(key) {
+    await fs.rm(path.join(BLOB_LOCAL_DIR, key), { force: true });
+  },
+};
+
+const backends: { [name: string]: BlobStore } = {
+  firebase: firebaseStore,
+  local: localStore,
+};
+
+export function getBlobStore(): BlobStore {
+  const store = backends[BLOB_BACKEND];
+  if (!store) {
+    throw new Error(`Unknown blob backend ${BLOB_BACKEND}`);
+  }
+  return store;
+}
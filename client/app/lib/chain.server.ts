@@ -0,0 +1,23 @@
+import Web3 from "web3";
+import type { Contract } from "web3-eth-contract";
+import { loadContract, type ContractArtifact } from "~/lib/web3";
+
+// Same read-only endpoint as the indexer
+const { PROJECT_ID, RELAYER_RPC_URL } = process.env;
+const RPC_URL = process.env.INDEXER_RPC_URL || RELAYER_RPC_URL || `https://eth-sepolia.g.alchemy.com/v2/${PROJECT_ID}`;
+
+let web3: Web3 | null = null;
+let networkId: number | null = null;
+
+// Loads an artifact for calls made by the server itself, nothing is ever sent from this connection
+export async function readOnlyContract(artifact: ContractArtifact): Promise<Contract> {
+  if (!web3 || networkId === null) {
+    web3 = new Web3(RPC_URL);
+    networkId = await web3.eth.net.getId();
+  }
+  const contract = loadContract(web3, artifact, networkId);
+  if (!contract) {
+    throw new Error("The smart contract is not deployed to the server's network");
+  }
+  return contract;
+}
@@ -0,0 +1,179 @@
+import type { Contract } from "web3-eth-contract";
+import { CURRENT_HASH_ALGORITHM, digest, HashAlgorithm } from "~/lib/hashing";
+import { decryptValue, encryptValue } from "~/lib/encryption";
+
+// Mirrors ClinicalEventRegistry.EventType, the numeric values are what the contract stores
+export enum ClinicalEventType {
+  Diagnosis = 0,
+  Surgery = 1,
+  ChemotherapyCycle = 2,
+  RadiotherapyCourse = 3,
+  Recurrence = 4,
+  Death = 5,
+}
+
+export const CLINICAL_EVENT_LABELS: { [type in ClinicalEventType]: string } = {
+  [ClinicalEventType.Diagnosis]: "Diagnosis",
+  [ClinicalEventType.Surgery]: "Surgery",
+  [ClinicalEventType.ChemotherapyCycle]: "Chemotherapy cycle",
+  [ClinicalEventType.RadiotherapyCourse]: "Radiotherapy course",
+  [ClinicalEventType.Recurrence]: "Recurrence",
+  [ClinicalEventType.Death]: "Death",
+};
+
+// Type-specific details captured with each event, on top of the date and free-text notes
+export const CLINICAL_EVENT_FIELDS: { [type in ClinicalEventType]: { name: string; label: string }[] } = {
+  [ClinicalEventType.Diagnosis]: [
+    { name: "primarySite", label: "Primary site" },
+    { name: "histology", label: "Histology" },
+    { name: "stage", label: "Stage" },
+  ],
+  [ClinicalEventType.Surgery]: [
+    { name: "procedure", label: "Procedure" },
+    { name: "margins", label: "Margins" },
+  ],
+  [ClinicalEventType.ChemotherapyCycle]: [
+    { name: "regimen", label: "Regimen" },
+    { name: "cycleNumber", label: "Cycle number" },
+  ],
+  [ClinicalEventType.RadiotherapyCourse]: [
+    { name: "site", label: "Treated site" },
+    { name: "totalDoseGy", label: "Total dose (Gy)" },
+    { name: "fractions", label: "Fractions" },
+  ],
+  [ClinicalEventType.Recurrence]: [
+    { name: "site", label: "Site" },
+  ],
+  [ClinicalEventType.Death]: [
+    { name: "cause", label: "Cause of death" },
+  ],
+};
+
+// Event hashes have their own serialisation, independent of the demographic hash schemas
+export const CLINICAL_EVENT_SCHEMA_VERSION = 1;
+
+// What the clinician enters, this is the part covered by the hash
+export interface ClinicalEventDraft {
+  eventType: ClinicalEventType;
+  occurredAt: number; // unix seconds
+  details: { [field: string]: string };
+  notes: string;
+}
+
+export interface ClinicalEvent extends ClinicalEventDraft {
+  eventId: number;
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+  recordedBy: string;
+  timestamp: number;
+  transactionHash: string;
+}
+
+// How an event is kept in Firebase, the details and notes encrypted under the data key of the patient's record
+export type StoredClinicalEvent = Omit<ClinicalEvent, "details" | "notes"> & { payload: string };
+
+export function sealClinicalEvent(event: ClinicalEvent, dataKey: string): StoredClinicalEvent {
+  const { details, notes, ...rest } = event;
+  return { ...rest, payload: encryptValue(JSON.stringify({ details, notes }), dataKey) };
+}
+
+// Events written before they were encrypted have no payload and are read as they are
+export function openClinicalEvent(stored: StoredClinicalEvent | ClinicalEvent, dataKey: string): ClinicalEvent {
+  if (!("payload" in stored)) {
+    return stored;
+  }
+  const { payload, ...rest } = stored;
+  return { ...rest, ...JSON.parse(decryptValue(payload, dataKey)) };
+}
+
+// The patient address is part of the hash so an event cannot be replayed against another patient
+export function hashClinicalEvent(
+  patientAddress: string,
+  draft: ClinicalEventDraft,
+  algorithm: HashAlgorithm = CURRENT_HASH_ALGORITHM
+) {
+  // Firebase drops empty objects, so an event read back without details hashes the same as when it was recorded
+  const entered = draft.details || {};
+  const details = Object.keys(entered).sort().reduce((result, key) => {
+    result[key] = entered[key];
+    return result;
+  }, {} as { [field: string]: string });
+
+  const canonical = JSON.stringify({
+    details,
+    eventType: draft.eventType,
+    notes: draft.notes,
+    occurredAt: draft.occurredAt,
+    patientAddress: patientAddress.toLowerCase(),
+  });
+  return digest(canonical, algorithm);
+}
+
+// Anchors the event first, the server then encrypts it and writes it to Firebase under the id the contract assigned
+export async function recordClinicalEvent(
+  eventRegistry: Contract,
+  patientAddress: string,
+  draft: ClinicalEventDraft,
+  account: string
+): Promise<ClinicalEvent> {
+  const algorithm = CURRENT_HASH_ALGORITHM;
+  const dataHash = hashClinicalEvent(patientAddress, draft, algorithm);
+
+  const receipt = await eventRegistry.methods.recordEvent(
+    patientAddress,
+    draft.eventType,
+    dataHash,
+    algorithm,
+    CLINICAL_EVENT_SCHEMA_VERSION,
+    draft.occurredAt
+  ).send({ from: account });
+
+  const recorded = receipt.events.ClinicalEventRecorded.returnValues;
+  const event: ClinicalEvent = {
+    ...draft,
+    eventId: Number(recorded.eventId),
+    dataHash,
+    algorithm,
+    schemaVersion: CLINICAL_EVENT_SCHEMA_VERSION,
+    recordedBy: account,
+    timestamp: Number(recorded.timestamp),
+    transactionHash: receipt.transactionHash,
+  };
+
+  const response = await fetch("/api/clinical-events", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ patientAddress, event }),
+  });
+  if (!response.ok) {
+    const { error } = await response.json();
+    throw new Error(error || "The clinical event was anchored but could not be stored");
+  }
+  return event;
+}
+
+// A record opened through break-the-glass names its logged emergency access, the server checks it like /api/patients
+export function clinicalEventsUrl(patientAddress: string, emergencyAccessId?: string) {
+  const url = `/api/clinical-events?patientAddress=${encodeURIComponent(patientAddress)}`;
+  return emergencyAccessId === undefined ? url : `${url}&emergencyAccessId=${encodeURIComponent(emergencyAccessId)}`;
+}
+
+// Oldest first, events on the same day keep the order they were recorded in
+export async function fetchClinicalEvents(patientAddress: string, emergencyAccessId?: string): Promise<ClinicalEvent[]> {
+  const response = await fetch(clinicalEventsUrl(patientAddress, emergencyAccessId));
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "The clinical events could not be read");
+  }
+
+  const events: ClinicalEvent[] = result.events;
+  return events.sort((a, b) => a.occurredAt - b.occurredAt || a.eventId - b.eventId);
+}
+
+// Recomputes the event's hash from Firebase and compares it with the anchored one
+export async function verifyClinicalEvent(eventRegistry: Contract, patientAddress: string, event: ClinicalEvent): Promise<boolean> {
+  const anchored = await eventRegistry.methods.getEvent(patientAddress, event.eventId).call();
+  const currentHash = hashClinicalEvent(patientAddress, event, Number(anchored.algorithm));
+  return anchored.dataHash === currentHash;
+}
@@ -0,0 +1,172 @@
+import Web3 from "web3";
+import type { TransactionReceipt } from "web3-core";
+import type { AbiItem } from "web3-utils";
+import { ref, get, update } from "firebase/database";
+import { database } from "firebaseConfig";
+import { institutionPath } from "~/lib/institution";
+import { isTracked, queueRetry, receiptDetails, type AnchorReceipt, type AnchoringStatus, type AnchorRequest } from "~/lib/anchoring";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+
+// Same read-only endpoint as the indexer
+const { PROJECT_ID, RELAYER_RPC_URL } = process.env;
+const RPC_URL = process.env.INDEXER_RPC_URL || RELAYER_RPC_URL || `https://eth-sepolia.g.alchemy.com/v2/${PROJECT_ID}`;
+
+// Blocks a transaction needs, its own included, before a record counts as anchored. truffle-config.js waits for 2 on sepolia
+export const CONFIRMATION_DEPTH = Number(process.env.ANCHOR_CONFIRMATIONS || 2);
+// Anchored records are still watched for this many blocks past their own, a deeper reorg than the depth is rare but not impossible
+const REORG_WINDOW = Number(process.env.ANCHOR_REORG_WINDOW || 64);
+// A transaction neither mined nor reverted after this long was most likely dropped, its record fails and is queued again
+const PENDING_TIMEOUT_SECONDS = Number(process.env.ANCHOR_PENDING_TIMEOUT_SECONDS || 60 * 60);
+const POLL_INTERVAL_MS = Number(process.env.CONFIRMATION_POLL_INTERVAL_MS || 15 * 1000);
+
+interface TrackedRecord {
+  anchoringStatus?: AnchoringStatus;
+  transactionHash?: string;
+  anchorReceipt?: AnchorReceipt;
+}
+
+interface StateChange {
+  changes: { [field: string]: unknown };
+  // Set when the record failed, the hash it was sent with goes back into the retry queue
+  retry?: string;
+}
+
+// Organizations whose records are checked on every poll, added by the loaders that show anchoring statuses
+const organizations = new Set<string>();
+let started = false;
+
+// Tracked records, and anchored ones whose block is still within the reorg window
+function isWatched(record: TrackedRecord, head: number) {
+  if (!record.anchoringStatus) return false;
+  if (isTracked(record.anchoringStatus)) return true;
+  const blockNumber = record.anchorReceipt?.blockNumber;
+  return record.anchoringStatus === "anchored" && blockNumber !== undefined && head - blockNumber < REORG_WINDOW;
+}
+
+// The changes to write for one record, or null when nothing moved since the last poll
+function nextState(record: TrackedRecord, receipt: TransactionReceipt | null, head: number): StateChange | null {
+  const previous = record.anchorReceipt;
+  const transactionHash = record.transactionHash!;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!receipt) {
+    // Mined before, so a reorg has taken its block away and it waits in the mempool again
+    if (previous?.blockNumber) {
+      return {
+        changes: {
+          anchoringStatus: "pending",
+          anchorReceipt: { transactionHash, confirmations: 0, reorgedFromBlock: previous.blockNumber, submittedAt: now },
+        },
+      };
+    }
+    // Records submitted before the time was kept start their timeout now
+    if (!previous?.submittedAt) {
+      return { changes: { anchorReceipt: { ...previous, transactionHash, confirmations: 0, submittedAt: now } } };
+    }
+    if (now - previous.submittedAt < PENDING_TIMEOUT_SECONDS) return null;
+    const message = `The anchoring transaction was not mined within ${Math.round(PENDING_TIMEOUT_SECONDS / 60)} minutes`;
+    return { changes: { anchoringStatus: "failed", anchoringError: message }, retry: message };
+  }
+
+  const details = receiptDetails(receipt, head);
+  // The same transaction in a block with another hash has been re-mined after a reorg
+  if (previous?.blockHash && previous.blockHash !== receipt.blockHash) {
+    details.reorgedFromBlock = previous.blockNumber;
+  } else if (previous?.reorgedFromBlock) {
+    details.reorgedFromBlock = previous.reorgedFromBlock;
+  }
+
+  if (!receipt.status) {
+    const message = "The anchoring transaction was reverted";
+    return { changes: { anchoringStatus: "failed", anchoringError: message, anchorReceipt: details }, retry: message };
+  }
+
+  const status: AnchoringStatus = details.confirmations >= CONFIRMATION_DEPTH ? "anchored" : "confirming";
+  if (status === record.anchoringStatus && details.blockHash === previous?.blockHash) {
+    // Past the depth only a reorg is news, the confirmation count is not worth a write on every block
+    if (status === "anchored" || details.confirmations === previous?.confirmations) return null;
+  }
+  return { changes: { anchoringStatus: status, anchorReceipt: details } };
+}
+
+// The request the transaction made for one patient, read back from its calldata since the record only holds ciphertext.
+// Null for a transaction the node no longer knows, or one that anchored a Merkle root rather than the record itself
+async function submittedRequest(web3: Web3, transactionHash: string, patientAddress: string): Promise<AnchorRequest | null> {
+  const transaction = await web3.eth.getTransaction(transactionHash);
+  if (!transaction) return null;
+
+  const selector = transaction.input.slice(0, 10);
+  const method = (PatientRegistryABI.abi as AbiItem[]).find((item) =>
+    item.type === "function" && item.inputs && web3.eth.abi.encodeFunctionSignature(item) === selector
+  );
+  if (!method?.inputs) return null;
+  const params = web3.eth.abi.decodeParameters(method.inputs, `0x${transaction.input.slice(10)}`);
+
+  const algorithm = Number(params.algorithm);
+  const schemaVersion = Number(params.schemaVersion);
+  switch (method.name) {
+    case "registerPatient":
+    case "registerAttestedPatient":
+      if (params.patientAddress.toLowerCase() !== patientAddress.toLowerCase()) return null;
+      return { patientAddress, dataHash: params.dataHash, algorithm, schemaVersion };
+    case "registerPatients": {
+      const index = (params.patientAddresses as string[]).findIndex((address) => address.toLowerCase() === patientAddress.toLowerCase());
+      if (index < 0) return null;
+      return { patientAddress, dataHash: params.dataHashes[index], algorithm, schemaVersion };
+    }
+    default:
+      return null;
+  }
+}
+
+async function checkOrganization(web3: Web3, orgId: string, head: number) {
+  const snapshot = await get(ref(database, institutionPath(orgId, "patients")));
+  if (!snapshot.exists()) return;
+
+  // A Merkle batch or an import anchors many records with one transaction, its receipt is only fetched once
+  const receipts = new Map<string, TransactionReceipt | null>();
+  for (const [address, record] of Object.entries(snapshot.val() as { [address: string]: TrackedRecord })) {
+    if (!record.transactionHash || !isWatched(record, head)) continue;
+
+    if (!receipts.has(record.transactionHash)) {
+      receipts.set(record.transactionHash, await web3.eth.getTransactionReceipt(record.transactionHash));
+    }
+    const next = nextState(record, receipts.get(record.transactionHash)!, head);
+    if (!next) continue;
+
+    await update(ref(database, institutionPath(orgId, `patients/${address}`)), next.changes);
+    if (next.retry) {
+      const request = await submittedRequest(web3, record.transactionHash, address);
+      if (request) {
+        await queueRetry(database, orgId, request, next.retry);
+      }
+    }
+  }
+}
+
+function run() {
+  const web3 = new Web3(RPC_URL);
+
+  const follow = async () => {
+    try {
+      const head = await web3.eth.getBlockNumber();
+      for (const orgId of organizations) {
+        await checkOrganization(web3, orgId, head);
+      }
+    } catch (error) {
+      // Nothing is lost, the next poll reads the statuses from Firebase again
+      console.error("Confirmation tracking failed:", error);
+    } finally {
+      setTimeout(follow, POLL_INTERVAL_MS);
+    }
+  };
+  follow();
+}
+
+// Starts the tracker once per server process and adds the organization to it
+export function trackConfirmations(orgId: string) {
+  organizations.add(orgId);
+  if (started) return;
+  started = true;
+  run();
+}
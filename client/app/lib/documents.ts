@@ -0,0 +1,128 @@
+import type { Contract } from "web3-eth-contract";
+import { ref, get, set, type Database } from "firebase/database";
+import { institutionPath } from "~/lib/institution";
+
+// Upper bound for a single attachment, enforced by the upload route as well
+export const DOCUMENT_MAX_BYTES = 20 * 1024 * 1024;
+
+export const DOCUMENT_CONTENT_TYPES = ["application/pdf", "image/png", "image/jpeg", "text/plain"];
+
+// Metadata kept in Firebase, the bytes themselves are in the blob backend under their content hash
+export interface StoredDocument {
+  documentId: number;
+  fileName: string;
+  contentType: string;
+  size: number;
+  contentHash: string;
+  uploadedBy: string;
+  timestamp: number;
+  transactionHash: string;
+}
+
+export interface DocumentVerification {
+  status: "verified" | "compromised" | "missing";
+  storedHash: string;
+  currentHash?: string;
+}
+
+// Returns the SHA-256 of the bytes as a 0x-prefixed bytes32 hex string
+export async function sha256Bytes(bytes: ArrayBuffer): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  return "0x" + Array.from(hash, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Blobs are content-addressed per institution, so re-uploading the same file overwrites identical bytes
+export function documentKey(orgId: string, patientAddress: string, contentHash: string) {
+  return `${orgId}/${patientAddress.toLowerCase()}/${contentHash}`;
+}
+
+// A record opened through break-the-glass names its logged emergency access, the server checks it like /api/patients
+export function documentUrl(patientAddress: string, contentHash: string, emergencyAccessId?: string) {
+  const url = `/api/documents?patientAddress=${encodeURIComponent(patientAddress)}&contentHash=${encodeURIComponent(contentHash)}`;
+  return emergencyAccessId === undefined ? url : `${url}&emergencyAccessId=${encodeURIComponent(emergencyAccessId)}`;
+}
+
+// Stores the file first, then anchors its hash, so an anchored hash always has bytes behind it
+export async function attachDocument(
+  documentRegistry: Contract,
+  database: Database,
+  orgId: string,
+  patientAddress: string,
+  file: File,
+  account: string
+): Promise<StoredDocument> {
+  const contentHash = await sha256Bytes(await file.arrayBuffer());
+
+  const body = new FormData();
+  body.append("patientAddress", patientAddress);
+  body.append("contentHash", contentHash);
+  body.append("file", file);
+  const response = await fetch("/api/documents", { method: "POST", body });
+  if (!response.ok) {
+    const { error } = await response.json();
+    throw new Error(error || "The document could not be uploaded");
+  }
+
+  const receipt = await documentRegistry.methods.anchorDocument(patientAddress, contentHash).send({ from: account });
+
+  const anchored = receipt.events.DocumentAnchored.returnValues;
+  const document: StoredDocument = {
+    documentId: Number(anchored.documentId),
+    fileName: file.name,
+    contentType: file.type,
+    size: file.size,
+    contentHash,
+    uploadedBy: account,
+    timestamp: Number(anchored.timestamp),
+    transactionHash: receipt.transactionHash,
+  };
+
+  await set(ref(database, institutionPath(orgId, `documents/${patientAddress}/${document.documentId}`)), document);
+  return document;
+}
+
+// Newest first
+export async function fetchDocuments(database: Database, orgId: string, patientAddress: string): Promise<StoredDocument[]> {
+  const snapshot = await get(ref(database, institutionPath(orgId, `documents/${patientAddress}`)));
+  if (!snapshot.exists()) {
+    return [];
+  }
+
+  // Firebase turns the numeric keys into an array, which may contain holes
+  const documents = Object.values(snapshot.val() as { [documentId: string]: StoredDocument }).filter(Boolean);
+  return documents.sort((a, b) => b.documentId - a.documentId);
+}
+
+// Downloads the stored bytes and re-hashes them, the way checkIntegrity re-hashes the demographics
+export async function verifyDocument(
+  documentRegistry: Contract,
+  patientAddress: string,
+  document: StoredDocument,
+  emergencyAccessId?: string
+): Promise<DocumentVerification> {
+  const anchored = await documentRegistry.methods.getDocument(patientAddress, document.documentId).call();
+
+  const response = await fetch(documentUrl(patientAddress, anchored.contentHash, emergencyAccessId));
+  if (response.status === 404) {
+    return { status: "missing", storedHash: anchored.contentHash };
+  }
+  if (!response.ok) {
+    throw new Error("The document could not be downloaded");
+  }
+
+  const currentHash = await sha256Bytes(await response.arrayBuffer());
+  return {
+    status: currentHash === anchored.contentHash ? "verified" : "compromised",
+    storedHash: anchored.contentHash,
+    currentHash,
+  };
+}
+
+// Only accepted by the server once the patient's record has been tombstoned
+export async function deleteDocumentBlob(patientAddress: string, contentHash: string) {
+  const response = await fetch(documentUrl(patientAddress, contentHash), { method: "DELETE" });
+  if (!response.ok && response.status !== 404) {
+    const { error } = await response.json();
+    throw new Error(error || "The document could not be deleted");
+  }
+}
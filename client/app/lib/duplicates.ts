@@ -0,0 +1,175 @@
+import { ref, push, type Database } from "firebase/database";
+import type { DemographicRecord } from "~/lib/patient";
+import { institutionPath } from "~/lib/institution";
+
+// Records from before the date of birth was asked for only carry the age, it stands in for it with a year of slack
+export type MatchFields = Pick<DemographicRecord, "firstName" | "lastName" | "age" | "dateOfBirth" | "contactNumber" | "email">;
+
+export interface DuplicateThresholds {
+  // Listed for review from this score on
+  possible: number;
+  // Shown as a likely duplicate from this score on
+  likely: number;
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLDS: DuplicateThresholds = { possible: 0.6, likely: 0.85 };
+
+// How much each field counts towards the score, a shared contact number or email says more than a shared age.
+// A record is compared by date of birth or by age, never both
+const FIELD_WEIGHTS = { name: 0.4, dateOfBirth: 0.2, age: 0.1, contactNumber: 0.25, email: 0.25 };
+
+// Similarity of each field between 0 and 1, fields missing on either side are left out
+type FieldSimilarity = { [field in keyof typeof FIELD_WEIGHTS]?: number };
+
+// Only the address and whether it is a likely or a possible duplicate. Scores or per-field similarities would let
+// anyone in the organization probe the fields of records they have no consent for, one guess at a time
+export interface DuplicateMatch {
+  address: string;
+  likely: boolean;
+}
+
+export type DuplicateDecision = "linked" | "proceeded" | "cancelled";
+
+// Appended under duplicateReviews/{address of the registration that was checked}, whichever way it went. The same
+// form can be checked again after an edit or a cancellation, so earlier decisions are kept next to the new one
+export interface DuplicateReview {
+  decision: DuplicateDecision;
+  candidates: DuplicateMatch[];
+  // The existing record the clinician went to instead, when linked
+  linkedTo?: string;
+  // Why the patient was registered all the same, when proceeded
+  justification?: string;
+  decidedBy: string;
+  decidedAt: number;
+}
+
+// Lowercased, accents and punctuation dropped, so "José O'Neil" and "jose oneil" compare equal
+export const normaliseName = (name: string) =>
+  name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+
+// The last nine digits, which leaves out trunk prefixes and country codes such as 011- and +6011-
+export const normalisePhone = (phone: string) => phone.replace(/\D/g, "").slice(-9);
+
+// Plus-addressing delivers to the same mailbox, the tag is not part of the identity
+export const normaliseEmail = (email: string) => {
+  const [local, domain] = email.trim().toLowerCase().split("@");
+  return domain ? `${local.split("+")[0]}@${domain}` : local;
+};
+
+// Jaro-Winkler similarity, tolerant of the typos and transpositions names pick up at a front desk
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// First and last name are also tried the other way round, they are often swapped on forms
+function fullNameSimilarity(candidate: MatchFields, existing: MatchFields) {
+  const [first, last] = [normaliseName(candidate.firstName), normaliseName(candidate.lastName)];
+  const [otherFirst, otherLast] = [normaliseName(existing.firstName ?? ""), normaliseName(existing.lastName ?? "")];
+  const inOrder = (nameSimilarity(first, otherFirst) + nameSimilarity(last, otherLast)) / 2;
+  const swapped = (nameSimilarity(first, otherLast) + nameSimilarity(last, otherFirst)) / 2;
+  return Math.max(inOrder, swapped);
+}
+
+function ageSimilarity(candidate: string, existing: string) {
+  const difference = Math.abs(Number(candidate) - Number(existing));
+  if (Number.isNaN(difference)) return 0;
+  return difference === 0 ? 1 : difference === 1 ? 0.7 : 0;
+}
+
+// Day and month swapped is the usual slip between DD/MM and MM/DD entry
+function dateOfBirthSimilarity(candidate: string, existing: string) {
+  if (candidate === existing) return 1;
+  const [year, month, day] = candidate.split("-");
+  return `${year}-${day}-${month}` === existing ? 0.7 : 0;
+}
+
+// Weighted over the fields both records have, so a record without an email is not penalised for it
+export function scoreMatch(candidate: MatchFields, existing: MatchFields) {
+  const fields: FieldSimilarity = {};
+  fields.name = fullNameSimilarity(candidate, existing);
+  if (candidate.dateOfBirth && existing.dateOfBirth) {
+    fields.dateOfBirth = dateOfBirthSimilarity(candidate.dateOfBirth, existing.dateOfBirth);
+  } else if (candidate.age && existing.age) {
+    fields.age = ageSimilarity(candidate.age, existing.age);
+  }
+  if (candidate.contactNumber && existing.contactNumber) {
+    fields.contactNumber = normalisePhone(candidate.contactNumber) === normalisePhone(existing.contactNumber) ? 1 : 0;
+  }
+  if (candidate.email && existing.email) {
+    fields.email = normaliseEmail(candidate.email) === normaliseEmail(existing.email) ? 1 : 0;
+  }
+
+  let weighted = 0;
+  let total = 0;
+  for (const [field, similarity] of Object.entries(fields) as [keyof typeof FIELD_WEIGHTS, number][]) {
+    weighted += FIELD_WEIGHTS[field] * similarity;
+    total += FIELD_WEIGHTS[field];
+  }
+  return { score: total > 0 ? weighted / total : 0, fields };
+}
+
+// Every record at or above the possible threshold, best match first
+export function findDuplicates(
+  candidate: MatchFields & { address: string },
+  records: { [address: string]: MatchFields & { erased?: boolean } },
+  thresholds: DuplicateThresholds = DEFAULT_DUPLICATE_THRESHOLDS
+): DuplicateMatch[] {
+  const matches: { address: string; score: number }[] = [];
+  for (const [address, record] of Object.entries(records)) {
+    if (record.erased || address.toLowerCase() === candidate.address.toLowerCase()) continue;
+
+    const { score } = scoreMatch(candidate, record);
+    if (score < thresholds.possible) continue;
+    matches.push({ address, score });
+  }
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .map(({ address, score }) => ({ address, likely: score >= thresholds.likely }));
+}
+
+// Asks /api/duplicates, the existing records are only decrypted on the server
+export async function checkForDuplicates(candidate: MatchFields & { address: string }): Promise<DuplicateMatch[]> {
+  const response = await fetch("/api/duplicates", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(candidate),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error);
+  }
+  return result.matches;
+}
+
+export async function saveDuplicateReview(database: Database, orgId: string, address: string, review: DuplicateReview) {
+  await push(ref(database, institutionPath(orgId, `duplicateReviews/${address}`)), review);
+}
@@ -0,0 +1,88 @@
+import CryptoJS from "crypto-js";
+import { ref, get, query, orderByChild, equalTo } from "firebase/database";
+import { database } from "firebaseConfig";
+import { institutionPath } from "~/lib/institution";
+import { decryptRecord, decryptValue, encryptValue, isEncrypted, type RecordKey } from "~/lib/encryption";
+
+// Institution keys are derived from this secret, it never leaves the server
+const { PHI_MASTER_KEY } = process.env;
+
+function masterKey() {
+  if (!PHI_MASTER_KEY) {
+    throw new Error("PHI_MASTER_KEY is not configured");
+  }
+  return PHI_MASTER_KEY;
+}
+
+// One key per Clerk organization, so a leaked wrapped key is useless outside its institution
+function institutionKey(orgId: string) {
+  return CryptoJS.HmacSHA256(`institution-key:${orgId}`, masterKey()).toString(CryptoJS.enc.Hex);
+}
+
+// Separate from the wrapping key, the index must not reveal anything the ciphertext does not
+function nameIndexKey(orgId: string) {
+  return CryptoJS.HmacSHA256(`name-index:${orgId}`, masterKey()).toString(CryptoJS.enc.Hex);
+}
+
+export function firstNameIndex(orgId: string, firstName: string) {
+  return CryptoJS.HmacSHA256(firstName.trim().toLowerCase(), nameIndexKey(orgId)).toString(CryptoJS.enc.Hex);
+}
+
+export function issueRecordKeys(orgId: string, firstNames: string[]): RecordKey[] {
+  const wrappingKey = institutionKey(orgId);
+  return firstNames.map((firstName) => {
+    const dataKey = CryptoJS.lib.WordArray.random(32).toString(CryptoJS.enc.Hex);
+    return {
+      dataKey,
+      wrappedKey: encryptValue(dataKey, wrappingKey),
+      firstNameIndex: firstNameIndex(orgId, firstName),
+    };
+  });
+}
+
+// Unwraps the record's data key and returns the plaintext record, tombstones and legacy records pass through
+export function openRecord<T extends object>(orgId: string, stored: T): T {
+  if (!isEncrypted(stored)) {
+    return stored;
+  }
+  const dataKey = decryptValue(stored.wrappedKey, institutionKey(orgId));
+  return decryptRecord(stored, dataKey);
+}
+
+// The data key of the patient's record, the clinical events kept about the patient are encrypted under it too.
+// Null for tombstones, which have no key left, and for addresses the organization has no record of
+export async function readDataKey(orgId: string, address: string): Promise<string | null> {
+  const snapshot = await get(ref(database, institutionPath(orgId, `patients/${address}`)));
+  if (!snapshot.exists() || !isEncrypted(snapshot.val())) {
+    return null;
+  }
+  return decryptValue(snapshot.val().wrappedKey, institutionKey(orgId));
+}
+
+function openAll<T extends object>(orgId: string, stored: { [address: string]: T } | null) {
+  const records: { [address: string]: T } = {};
+  for (const [address, record] of Object.entries(stored || {})) {
+    records[address] = openRecord(orgId, record);
+  }
+  return records;
+}
+
+export async function readPatients<T extends object>(orgId: string): Promise<{ [address: string]: T }> {
+  const snapshot = await get(ref(database, institutionPath(orgId, "patients")));
+  return openAll<T>(orgId, snapshot.val());
+}
+
+export async function readPatient<T extends object>(orgId: string, address: string): Promise<T | null> {
+  const snapshot = await get(ref(database, institutionPath(orgId, `patients/${address}`)));
+  return snapshot.exists() ? openRecord<T>(orgId, snapshot.val()) : null;
+}
+
+// Matches encrypted records through the name index and legacy plaintext records by the name itself
+export async function findPatientsByFirstName<T extends object>(orgId: string, firstName: string): Promise<{ [address: string]: T }> {
+  const patients = ref(database, institutionPath(orgId, "patients"));
+  const [indexed, legacy] = await Promise.all([
+    get(query(patients, orderByChild("firstNameIndex"), equalTo(firstNameIndex(orgId, firstName)))),
+    get(query(patients, orderByChild("firstName"), equalTo(firstName))),
+  ]);
+  return openAll<T>(orgId, { ...legacy.val(), ...indexed.val() });
+}
@@ -0,0 +1,80 @@
+import CryptoJS from "crypto-js";
+
+// Fields of a patient record that only ever reach Firebase as ciphertext
+export const ENCRYPTED_FIELDS = [
+  "firstName", "lastName", "contactNumber", "email", "dateOfBirth", "cancerType", "diagnosisDate", "histology",
+  "topographyCode", "topographyLabel", "morphologyCode", "morphologyLabel", "icd10Code", "icd10Label",
+] as const;
+
+// A fresh per-record data key, together with the same key wrapped by the institution key
+export interface RecordKey {
+  dataKey: string; // hex, only ever held in memory while the record is encrypted
+  wrappedKey: string;
+  // Keyed hash of the first name, so a record can be found by name without storing the name
+  firstNameIndex: string;
+}
+
+// What is stored next to the ciphertext, the data key can only be unwrapped on the server
+export interface EncryptionEnvelope {
+  wrappedKey: string;
+  firstNameIndex: string;
+}
+
+// AES-256-CBC with a random IV, serialised as "iv:ciphertext" in base64
+export function encryptValue(plaintext: string, keyHex: string): string {
+  const iv = CryptoJS.lib.WordArray.random(16);
+  const ciphertext = CryptoJS.AES.encrypt(plaintext, CryptoJS.enc.Hex.parse(keyHex), { iv });
+  return `${iv.toString(CryptoJS.enc.Base64)}:${ciphertext.toString()}`;
+}
+
+export function decryptValue(serialised: string, keyHex: string): string {
+  const [iv, ciphertext] = serialised.split(":");
+  const plaintext = CryptoJS.AES.decrypt(ciphertext, CryptoJS.enc.Hex.parse(keyHex), { iv: CryptoJS.enc.Base64.parse(iv) });
+  return plaintext.toString(CryptoJS.enc.Utf8);
+}
+
+// Records written before encryption was introduced have no envelope and are read as they are
+export function isEncrypted(stored: object): stored is EncryptionEnvelope {
+  return typeof (stored as Partial<EncryptionEnvelope>).wrappedKey === "string";
+}
+
+export function encryptRecord<T extends object>(record: T, key: RecordKey): T & EncryptionEnvelope {
+  const encrypted = { ...record } as { [field: string]: unknown };
+  for (const field of ENCRYPTED_FIELDS) {
+    if (typeof encrypted[field] === "string") {
+      encrypted[field] = encryptValue(encrypted[field] as string, key.dataKey);
+    }
+  }
+  return { ...(encrypted as T), wrappedKey: key.wrappedKey, firstNameIndex: key.firstNameIndex };
+}
+
+// The envelope is dropped again, callers only ever see the record as it was entered
+export function decryptRecord<T extends object>(stored: T & EncryptionEnvelope, dataKey: string): T {
+  const decrypted = { ...stored } as { [field: string]: unknown };
+  delete decrypted.wrappedKey;
+  delete decrypted.firstNameIndex;
+  for (const field of ENCRYPTED_FIELDS) {
+    if (typeof decrypted[field] === "string") {
+      decrypted[field] = decryptValue(decrypted[field] as string, dataKey);
+    }
+  }
+  return decrypted as T;
+}
+
+// Asks the server for one data key per record and encrypts the records in the browser
+export async function sealRecords<T extends { firstName: string }>(records: T[]): Promise<(T & EncryptionEnvelope)[]> {
+  if (records.length === 0) return [];
+
+  const response = await fetch("/api/keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ firstNames: records.map((record) => record.firstName) }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || "Could not obtain encryption keys");
+  }
+
+  const keys: RecordKey[] = result.keys;
+  return records.map((record, i) => encryptRecord(record, keys[i]));
+}
@@ -0,0 +1,69 @@
+import type { Contract } from "web3-eth-contract";
+import { ref, get, set, remove, query, orderByChild, equalTo, type Database } from "firebase/database";
+import { institutionId, institutionPath } from "~/lib/institution";
+import { deleteDocumentBlob, fetchDocuments } from "~/lib/documents";
+
+// Mirrors PatientRegistry.ErasureReason, the numeric values are what the contract stores
+export enum ErasureReason {
+  PatientRequest = 0,
+  ConsentWithdrawn = 1,
+  LegalObligation = 2,
+  DataError = 3,
+}
+
+export const ERASURE_REASON_LABELS: { [reason in ErasureReason]: string } = {
+  [ErasureReason.PatientRequest]: "Patient request",
+  [ErasureReason.ConsentWithdrawn]: "Consent withdrawn",
+  [ErasureReason.LegalObligation]: "Legal obligation",
+  [ErasureReason.DataError]: "Registered in error",
+};
+
+// What is left in Firebase after an erasure, enough to find the tombstone but no PHI
+export interface ErasedRecord {
+  address: string;
+  erased: true;
+  erasedAt: number;
+  reason: ErasureReason;
+  transactionHash: string;
+}
+
+// Tombstones the record on-chain first, the PHI is only purged once the erasure is anchored.
+// Works for records that were never anchored individually too, their address gets a tombstone all the same
+export async function erasePatient(
+  registry: Contract,
+  database: Database,
+  orgId: string,
+  address: string,
+  reason: ErasureReason,
+  account: string
+): Promise<ErasedRecord> {
+  const receipt = await registry.methods.erasePatient(address, institutionId(orgId), reason).send({ from: account });
+
+  const tombstone: ErasedRecord = {
+    address,
+    erased: true,
+    erasedAt: Number(receipt.events.PatientErased.returnValues.timestamp),
+    reason,
+    transactionHash: receipt.transactionHash,
+  };
+
+  // Overwriting the node drops every PHI field in one write
+  await set(ref(database, institutionPath(orgId, `patients/${address}`)), tombstone);
+  // Queued anchors of an erased address can only revert now, and would take the rest of their batch down with them
+  await remove(ref(database, institutionPath(orgId, `merkleQueue/${address}`)));
+  await remove(ref(database, institutionPath(orgId, `anchorQueue/${address}`)));
+  await remove(ref(database, institutionPath(orgId, `duplicateReviews/${address}`)));
+  await remove(ref(database, institutionPath(orgId, `clinicalEvents/${address}`)));
+
+  // Justifications are free text about the patient, the hash logged on-chain stays as the audit trail
+  const accesses = await get(query(ref(database, institutionPath(orgId, "emergencyAccess")), orderByChild("patientAddress"), equalTo(address)));
+  await Promise.all(Object.keys(accesses.val() || {}).map((accessId) =>
+    remove(ref(database, institutionPath(orgId, `emergencyAccess/${accessId}`)))
+  ));
+
+  // The metadata is the only index of the attached files, so the blobs go before it does
+  const documents = await fetchDocuments(database, orgId, address);
+  await Promise.all(documents.map((document) => deleteDocumentBlob(address, document.contentHash)));
+  await remove(ref(database, institutionPath(orgId, `documents/${address}`)));
+  return tombstone;
+}
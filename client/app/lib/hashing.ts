@@ -0,0 +1,81 @@
+import CryptoJS from 'crypto-js';
+import Web3 from "web3";
+
+// Mirrors PatientRegistry.HashAlgorithm, the numeric values are what the contract stores
+export enum HashAlgorithm {
+  SHA256 = 0,
+  KECCAK256 = 1,
+}
+
+// A schema version fixes which fields are hashed and how they are serialised
+interface HashSchema {
+  fields: string[];
+  canonicalize: (data: { [key: string]: unknown }) => string;
+}
+
+// Picks the listed fields and serialises them as JSON with sorted keys
+const sortedJson = (fields: string[]) => (data: { [key: string]: unknown }) => {
+  const sortedData = [...fields].sort().reduce((result, key) => {
+    result[key] = data[key];
+    return result;
+  }, {} as { [key: string]: unknown });
+  return JSON.stringify(sortedData);
+};
+
+const DEMOGRAPHIC_FIELDS = ["firstName", "lastName", "contactNumber", "gender", "cancerType", "age", "email", "timestamp"];
+
+// Added by the intake wizard, a diagnosis or staging correction changes the anchored hash
+const DIAGNOSIS_FIELDS = [
+  ...DEMOGRAPHIC_FIELDS,
+  "diagnosisDate", "basisOfDiagnosis", "histology", "grade", "laterality",
+  "tCategory", "nCategory", "mCategory", "stageGroup",
+];
+
+// ICD-O-3 and ICD-10 codes with their labels take the place of the free cancerType string
+const CODED_FIELDS = [
+  ...DIAGNOSIS_FIELDS.filter((field) => field !== "cancerType"),
+  "topographyCode", "topographyLabel", "morphologyCode", "morphologyLabel", "icd10Code", "icd10Label",
+];
+
+// The date of birth tells apart patients the name and age alone would not, e.g. in the duplicate check
+const BIRTH_DATED_FIELDS = [...CODED_FIELDS, "dateOfBirth"];
+
+const SCHEMAS: { [version: number]: HashSchema } = {
+  1: { fields: DEMOGRAPHIC_FIELDS, canonicalize: sortedJson(DEMOGRAPHIC_FIELDS) },
+  2: { fields: DIAGNOSIS_FIELDS, canonicalize: sortedJson(DIAGNOSIS_FIELDS) },
+  3: { fields: CODED_FIELDS, canonicalize: sortedJson(CODED_FIELDS) },
+  4: { fields: BIRTH_DATED_FIELDS, canonicalize: sortedJson(BIRTH_DATED_FIELDS) },
+};
+
+// Used for every new anchor, older records keep the version they were anchored with
+export const CURRENT_SCHEMA_VERSION = 4;
+export const CURRENT_HASH_ALGORITHM = HashAlgorithm.SHA256;
+
+export function getSchema(schemaVersion: number) {
+  const schema = SCHEMAS[schemaVersion];
+  if (!schema) {
+    throw new Error(`Unknown hash schema version ${schemaVersion}`);
+  }
+  return schema;
+}
+
+export function digest(message: string, algorithm: HashAlgorithm) {
+  switch (algorithm) {
+    case HashAlgorithm.SHA256:
+      return '0x' + CryptoJS.SHA256(message).toString();
+    case HashAlgorithm.KECCAK256:
+      return Web3.utils.keccak256(message);
+    default:
+      throw new Error(`Unknown hash algorithm ${algorithm}`);
+  }
+}
+
+// Returns the record's bytes32 hash as a 0x-prefixed hex string
+export function hashRecord(
+  data: object,
+  algorithm: HashAlgorithm = CURRENT_HASH_ALGORITHM,
+  schemaVersion: number = CURRENT_SCHEMA_VERSION
+) {
+  const canonical = getSchema(schemaVersion).canonicalize(data as { [key: string]: unknown });
+  return digest(canonical, algorithm);
+}
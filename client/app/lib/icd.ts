@@ -0,0 +1,154 @@
+import { ICD10_CATEGORIES, MORPHOLOGY, MORPHOLOGY_ICD10, TOPOGRAPHY } from "~/lib/icd-tables";
+
+// Both codes are stored with their labels, so reports stay readable without the tables
+export interface DiagnosisCoding {
+  topographyCode: string; // ICD-O-3, e.g. C50.9
+  topographyLabel: string;
+  morphologyCode: string; // ICD-O-3 with behaviour, e.g. 8500/3
+  morphologyLabel: string;
+  icd10Code: string; // derived from the two codes above
+  icd10Label: string;
+}
+
+const topographyLabels = new Map(TOPOGRAPHY);
+const morphologyLabels = new Map(MORPHOLOGY);
+const icd10Labels = new Map(ICD10_CATEGORIES);
+
+export const isTopographyCode = (code: string) => topographyLabels.has(code);
+export const isMorphologyCode = (code: string) => morphologyLabels.has(code);
+
+// Case-insensitive match on the code or the label, codes that start with the query come first
+export function searchCodes(table: [string, string][], search: string, limit = 8) {
+  const query = search.trim().toLowerCase();
+  if (!query) return table.slice(0, limit);
+
+  const byCode = table.filter(([code]) => code.toLowerCase().startsWith(query));
+  const byLabel = table.filter(([code, label]) => !code.toLowerCase().startsWith(query) && label.toLowerCase().includes(query));
+  return [...byCode, ...byLabel].slice(0, limit);
+}
+
+// Histologies that only arise at particular sites. A site is a category ("C50"), a subsite ("C22.0") or a range of categories ("C00-C21")
+const SITE_RULES: { name: string; from: number; to: number; sites: string[] }[] = [
+  { name: "Basal cell carcinoma", from: 8090, to: 8098, sites: ["C44", "C51", "C60", "C63.2"] },
+  { name: "Cholangiocarcinoma", from: 8160, to: 8161, sites: ["C22.1", "C24"] },
+  { name: "Hepatocellular carcinoma", from: 8170, to: 8175, sites: ["C22.0"] },
+  { name: "Renal cell carcinoma", from: 8312, to: 8319, sites: ["C64"] },
+  { name: "Follicular or medullary thyroid carcinoma", from: 8330, to: 8350, sites: ["C73"] },
+  { name: "Ductal or lobular carcinoma", from: 8500, to: 8543, sites: ["C50", "C25", "C61"] },
+  { name: "Melanoma", from: 8720, to: 8790, sites: ["C00-C21", "C30-C32", "C44", "C51-C52", "C60", "C69"] },
+  { name: "Nephroblastoma", from: 8960, to: 8960, sites: ["C64"] },
+  { name: "Hepatoblastoma", from: 8970, to: 8970, sites: ["C22.0"] },
+  { name: "Mesothelioma", from: 9050, to: 9055, sites: ["C38", "C48"] },
+  { name: "A germ cell tumor", from: 9060, to: 9102, sites: ["C38", "C48", "C56", "C58", "C62", "C71", "C75.3"] },
+  { name: "A glial or embryonal CNS tumor", from: 9380, to: 9480, sites: ["C70-C72", "C75.3"] },
+  { name: "Retinoblastoma", from: 9510, to: 9514, sites: ["C69"] },
+  { name: "Multiple myeloma", from: 9732, to: 9732, sites: ["C42.1"] },
+  { name: "Leukemia", from: 9800, to: 9805, sites: ["C42.1"] },
+  { name: "Myeloid leukemia", from: 9840, to: 9948, sites: ["C42.1"] },
+];
+
+// Sites that are only a primary site for haematolymphoid neoplasms
+const SITE_ONLY_RULES: { site: string; from: number; to: number; name: string }[] = [
+  { site: "C42", from: 9590, to: 9992, name: "haematopoietic histologies" },
+  { site: "C77", from: 9590, to: 9837, name: "lymphomas" },
+];
+
+const histologyOf = (morphologyCode: string) => parseInt(morphologyCode, 10);
+
+function matchesSite(topographyCode: string, site: string) {
+  if (site.includes("-")) {
+    const [from, to] = site.split("-");
+    const category = topographyCode.slice(0, 3);
+    return category >= from && category <= to;
+  }
+  return topographyCode.startsWith(site);
+}
+
+// Returns why the combination is impossible, or null when it can be coded
+export function validateCoding(topographyCode: string, morphologyCode: string): string | null {
+  const histology = histologyOf(morphologyCode);
+  const site = `${topographyCode} ${topographyLabels.get(topographyCode) ?? ""}`.trim();
+
+  for (const rule of SITE_RULES) {
+    if (histology >= rule.from && histology <= rule.to && !rule.sites.some((allowed) => matchesSite(topographyCode, allowed))) {
+      return `${rule.name} cannot be coded to ${site}.`;
+    }
+  }
+  for (const rule of SITE_ONLY_RULES) {
+    if (matchesSite(topographyCode, rule.site) && (histology < rule.from || histology > rule.to)) {
+      return `${site} is only used as a primary site for ${rule.name}.`;
+    }
+  }
+  return null;
+}
+
+// Categories that have no fourth character in ICD-10 although ICD-O-3 codes them as .9
+const UNDIVIDED_ICD10 = ["C01", "C07", "C12", "C19", "C20", "C23", "C33", "C37", "C52", "C55", "C56", "C58", "C61", "C64", "C65", "C66", "C73"];
+
+export function toIcd10(topographyCode: string, morphologyCode: string) {
+  if (MORPHOLOGY_ICD10[morphologyCode]) {
+    return MORPHOLOGY_ICD10[morphologyCode];
+  }
+
+  const histology = histologyOf(morphologyCode);
+  const category = topographyCode.slice(0, 3);
+  const subsite = topographyCode.slice(3);
+
+  // ICD-10 classifies skin melanoma and mesothelioma by histology rather than by site
+  if (histology >= 8720 && histology <= 8790 && category === "C44") {
+    return `C43${subsite}`;
+  }
+  if (histology >= 9050 && histology <= 9055) {
+    if (topographyCode === "C38.4") return "C45.0";
+    if (category === "C48") return "C45.1";
+    return "C45.9";
+  }
+
+  return UNDIVIDED_ICD10.includes(category) ? category : topographyCode;
+}
+
+export function codeDiagnosis(topographyCode: string, morphologyCode: string): DiagnosisCoding {
+  const icd10Code = toIcd10(topographyCode, morphologyCode);
+  return {
+    topographyCode,
+    topographyLabel: topographyLabels.get(topographyCode) ?? "",
+    morphologyCode,
+    morphologyLabel: morphologyLabels.get(morphologyCode) ?? "",
+    icd10Code,
+    icd10Label: icd10Labels.get(icd10Code.slice(0, 3)) ?? "",
+  };
+}
+
+// The fixed list the registration form offered before coding, mapped to the least specific codes that are still true
+export const LEGACY_CANCER_TYPES: { [cancerType: string]: { topographyCode: string; morphologyCode: string } } = {
+  breast: { topographyCode: "C50.9", morphologyCode: "8000/3" },
+  lung: { topographyCode: "C34.9", morphologyCode: "8000/3" },
+  prostate: { topographyCode: "C61.9", morphologyCode: "8000/3" },
+  colorectal: { topographyCode: "C18.9", morphologyCode: "8000/3" },
+  melanoma: { topographyCode: "C44.9", morphologyCode: "8720/3" },
+  leukemia: { topographyCode: "C42.1", morphologyCode: "9800/3" },
+  lymphoma: { topographyCode: "C77.9", morphologyCode: "9590/3" },
+  other: { topographyCode: "C80.9", morphologyCode: "8000/3" },
+};
+
+// Fills in the codes of a record that only has the legacy cancerType, so it can be edited or imported as a coded one
+export function withLegacyCoding<T extends object>(record: T): T {
+  const { cancerType, topographyCode } = record as { cancerType?: unknown; topographyCode?: unknown };
+  const legacy = typeof cancerType === "string" ? LEGACY_CANCER_TYPES[cancerType.toLowerCase()] : undefined;
+  if (topographyCode || !legacy) {
+    return record;
+  }
+  return { ...record, ...legacy };
+}
+
+// Short label for lists, older records are shown with the site their cancerType maps to
+export function describeDiagnosis(record: Partial<DiagnosisCoding> & { cancerType?: string }) {
+  if (record.topographyCode) {
+    return `${record.icd10Code || record.topographyCode} ${record.topographyLabel ?? ""}`.trim();
+  }
+  const legacy = record.cancerType ? LEGACY_CANCER_TYPES[record.cancerType.toLowerCase()] : undefined;
+  if (legacy) {
+    return `${topographyLabels.get(legacy.topographyCode)} (not coded)`;
+  }
+  return record.cancerType ?? "";
+}
@@ -0,0 +1,229 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Web3 from "web3";
+import type { Contract, EventData } from "web3-eth-contract";
+import { loadContract } from "~/lib/web3";
+import { institutionId } from "~/lib/institution";
+import type { HashAlgorithm } from "~/lib/hashing";
+import { CONFIRMATION_DEPTH } from "~/lib/confirmations.server";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+import ConsentRegistryABI from "~/routes/artifacts/ConsentRegistry.json";
+
+// Read-only endpoint, falls back to the relayer's RPC and then to the sepolia endpoint from truffle-config.js
+const { PROJECT_ID, RELAYER_RPC_URL } = process.env;
+const RPC_URL = process.env.INDEXER_RPC_URL || RELAYER_RPC_URL || `https://eth-sepolia.g.alchemy.com/v2/${PROJECT_ID}`;
+
+// Block the registry was deployed at, nothing before it needs to be scanned
+const START_BLOCK = Number(process.env.INDEXER_START_BLOCK || 0);
+// Providers cap the block range of a single eth_getLogs call
+const BLOCK_RANGE = Number(process.env.INDEXER_BLOCK_RANGE || 2000);
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_INTERVAL_MS || 15 * 1000);
+const STORE_FILE = path.resolve(process.env.INDEXER_STORE_PATH || ".indexer/patient-registry.json");
+
+// One PatientRegistered event, together with where it was mined
+export interface IndexedRegistration {
+  version: number;
+  institutionId: string;
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+  timestamp: number;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+// The latest ConsentGranted or ConsentRevoked event of one patient and clinician
+interface IndexedConsent {
+  expiresAt: number; // 0 means the grant never expires
+  revoked: boolean;
+  blockNumber: number;
+  logIndex: number;
+}
+
+interface IndexStore {
+  networkId: number;
+  registryAddress: string;
+  consentRegistryAddress: string;
+  // Last block whose events are all in the store, the next sync resumes after it
+  checkpoint: number;
+  // Keyed by lowercased patient address, versions in the order they were registered
+  registrations: { [address: string]: IndexedRegistration[] };
+  // Keyed by lowercased patient address, then by lowercased clinician address
+  consents: { [address: string]: { [clinician: string]: IndexedConsent } };
+}
+
+export interface IndexerStatus {
+  checkpoint: number | null;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+let store: IndexStore | null = null;
+let started = false;
+let syncing = false;
+// When the store last reached the head, a missing consent may only not be indexed yet when this is old or unset
+let lastSyncedAt: number | null = null;
+let lastError: string | null = null;
+
+async function readStore(networkId: number, registryAddress: string, consentRegistryAddress: string): Promise<IndexStore> {
+  try {
+    const saved: IndexStore = JSON.parse(await fs.readFile(STORE_FILE, "utf8"));
+    // A redeployed registry or a different network invalidates everything indexed so far
+    if (
+      saved.networkId === networkId &&
+      saved.registryAddress.toLowerCase() === registryAddress.toLowerCase() &&
+      saved.consentRegistryAddress?.toLowerCase() === consentRegistryAddress.toLowerCase()
+    ) {
+      return saved;
+    }
+    console.log("Indexer store belongs to another deployment, reindexing from block", START_BLOCK);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  return { networkId, registryAddress, consentRegistryAddress, checkpoint: START_BLOCK - 1, registrations: {}, consents: {} };
+}
+
+// Written to a temporary file first so a crash mid-write never leaves a truncated store behind
+async function writeStore(current: IndexStore) {
+  await fs.mkdir(path.dirname(STORE_FILE), { recursive: true });
+  const temporary = `${STORE_FILE}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(current));
+  await fs.rename(temporary, STORE_FILE);
+}
+
+function applyEvent(current: IndexStore, event: EventData) {
+  const values = event.returnValues;
+  const key = values.patientAddress.toLowerCase();
+  const versions = current.registrations[key] || [];
+  const version = Number(values.version);
+
+  // A range that was interrupted before its checkpoint was saved is scanned again, skip what is already there
+  if (versions.some((registration) => registration.version === version)) return;
+
+  versions.push({
+    version,
+    institutionId: values.institutionId,
+    dataHash: values.dataHash,
+    algorithm: Number(values.algorithm),
+    schemaVersion: Number(values.schemaVersion),
+    timestamp: Number(values.timestamp),
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+  });
+  versions.sort((a, b) => a.version - b.version);
+  current.registrations[key] = versions;
+}
+
+// Grants and revocations of a range are applied in chain order, one already applied by an interrupted scan is skipped
+function applyConsentEvent(current: IndexStore, event: EventData) {
+  const values = event.returnValues;
+  const patient = values.patientAddress.toLowerCase();
+  const clinician = values.clinician.toLowerCase();
+  const grants = current.consents[patient] || {};
+  const previous = grants[clinician];
+  if (previous && (previous.blockNumber > event.blockNumber || (previous.blockNumber === event.blockNumber && previous.logIndex >= event.logIndex))) {
+    return;
+  }
+
+  grants[clinician] = {
+    expiresAt: event.event === "ConsentGranted" ? Number(values.expiresAt) : previous?.expiresAt ?? 0,
+    revoked: event.event === "ConsentRevoked",
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+  };
+  current.consents[patient] = grants;
+}
+
+// Scans from the checkpoint in BLOCK_RANGE chunks, saving after each chunk. Blocks are only indexed once they
+// have the confirmation depth anchoring uses, an event a reorg removes again never makes it into the store
+async function syncToHead(web3: Web3, registry: Contract, consentRegistry: Contract, current: IndexStore) {
+  const finalized = await web3.eth.getBlockNumber() - (CONFIRMATION_DEPTH - 1);
+  for (let fromBlock = current.checkpoint + 1; fromBlock <= finalized; fromBlock += BLOCK_RANGE) {
+    const toBlock = Math.min(fromBlock + BLOCK_RANGE - 1, finalized);
+    const events = await registry.getPastEvents("PatientRegistered", { fromBlock, toBlock });
+    events.forEach((event) => applyEvent(current, event));
+    const consentEvents = [
+      ...await consentRegistry.getPastEvents("ConsentGranted", { fromBlock, toBlock }),
+      ...await consentRegistry.getPastEvents("ConsentRevoked", { fromBlock, toBlock }),
+    ];
+    consentEvents
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+      .forEach((event) => applyConsentEvent(current, event));
+    current.checkpoint = toBlock;
+    await writeStore(current);
+  }
+}
+
+async function run() {
+  const web3 = new Web3(RPC_URL);
+  const networkId = await web3.eth.net.getId();
+  const registry = loadContract(web3, PatientRegistryABI, networkId);
+  const consentRegistry = loadContract(web3, ConsentRegistryABI, networkId);
+  if (!registry || !consentRegistry) {
+    throw new Error("The smart contract is not deployed to the indexer's network");
+  }
+  store = await readStore(networkId, registry.options.address, consentRegistry.options.address);
+
+  // The backfill is simply the first sync, every later one only covers the blocks mined since
+  const follow = async () => {
+    syncing = true;
+    try {
+      await syncToHead(web3, registry, consentRegistry, store!);
+      lastSyncedAt = Date.now();
+      lastError = null;
+    } catch (error) {
+      // The checkpoint only moves past fully indexed chunks, the next poll resumes from there
+      console.error("Indexer sync failed:", error);
+      lastError = (error as Error).message;
+    } finally {
+      syncing = false;
+      setTimeout(follow, POLL_INTERVAL_MS);
+    }
+  };
+  await follow();
+}
+
+// Starts the indexer once per server process, loaders call it and read whatever has been indexed so far
+export function startIndexer() {
+  if (started) return;
+  started = true;
+  run().catch((error) => {
+    console.error("Indexer could not start:", error);
+    lastError = (error as Error).message;
+    // Allows the next loader call to try again
+    started = false;
+  });
+}
+
+export function getIndexerStatus(): IndexerStatus {
+  return { checkpoint: store ? store.checkpoint : null, syncing, lastError };
+}
+
+export function getIndexedHistory(address: string): IndexedRegistration[] {
+  return store?.registrations[address.toLowerCase()] || [];
+}
+
+// Every indexed patient of the organization, keyed by lowercased address
+export function getInstitutionRegistrations(orgId: string): { [address: string]: IndexedRegistration[] } {
+  const id = institutionId(orgId);
+  const registrations: { [address: string]: IndexedRegistration[] } = {};
+  for (const [address, versions] of Object.entries(store?.registrations || {})) {
+    if (versions[0]?.institutionId === id) {
+      registrations[address] = versions;
+    }
+  }
+  return registrations;
+}
+
+// Whether the patient's indexed consent grant to the clinician is active, null unless the last sync succeeded
+// within two poll intervals. The index trails the chain by the confirmation depth, a grant counts once it is final
+export function getIndexedConsent(patientAddress: string, clinician: string): boolean | null {
+  if (!store || lastError || lastSyncedAt === null || Date.now() - lastSyncedAt > 2 * POLL_INTERVAL_MS) return null;
+  const grant = store.consents[patientAddress.toLowerCase()]?.[clinician.toLowerCase()];
+  if (!grant || grant.revoked) {
+    return false;
+  }
+  return grant.expiresAt === 0 || grant.expiresAt > Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,18 @@
+import Web3 from "web3";
+import type { Contract } from "web3-eth-contract";
+
+// On-chain institution id for a Clerk organization, the org id itself never goes on-chain
+export function institutionId(orgId: string): string {
+  return Web3.utils.soliditySha3({ type: "string", value: orgId }) as string;
+}
+
+// Every Firebase node holding patient data lives under its institution, so one org cannot read another's
+export function institutionPath(orgId: string, path: string): string {
+  return `institutions/${orgId}/${path}`;
+}
+
+// The allowlist binds every clinician to one institution, a clinician of another org cannot anchor for this one
+export async function isInstitutionClinician(registry: Contract, account: string, orgId: string): Promise<boolean> {
+  const bound: string = await registry.methods.getClinicianInstitution(account).call();
+  return bound === institutionId(orgId);
+}
@@ -0,0 +1,144 @@
+import Web3 from "web3";
+import type { Contract } from "web3-eth-contract";
+import type { provider } from "web3-core";
+import type { DemographicRecord, DiagnosisRecord } from "~/lib/patient";
+import { hashRecord, HashAlgorithm } from "~/lib/hashing";
+import { merkleLeaf, verifyMerkleProof, type MerkleProof } from "~/lib/merkle";
+import { institutionId } from "~/lib/institution";
+import type { ErasureReason } from "~/lib/erasure";
+import type { AnchoringStatus, AnchorReceipt } from "~/lib/anchoring";
+
+// Records anchored before schema version 3 have a cancerType, and before version 2 no diagnosis at all
+export interface StoredPatient extends DemographicRecord, Partial<DiagnosisRecord> {
+  cancerType?: string;
+  merkleProof?: MerkleProof;
+  merklePending?: boolean;
+  erased?: boolean;
+  anchoringStatus?: AnchoringStatus;
+  anchorReceipt?: AnchorReceipt;
+}
+
+export interface IntegrityResult {
+  status: "verified" | "compromised" | "pending" | "erased";
+  mode: "direct" | "merkle";
+  storedHash: string;
+  currentHash: string;
+  batchId?: number;
+  algorithm?: HashAlgorithm;
+  schemaVersion?: number;
+  erasedAt?: number;
+  erasureReason?: ErasureReason;
+  attestedBy?: string;
+  // Blocks on top of a mined transaction that is not final yet
+  confirmations?: number;
+}
+
+// The transaction a pending record is waiting on carries the record's hash in its calldata, so even
+// before it is mined the chain, not the record's own status fields, says whether the hash was submitted
+async function submittedWithHash(registry: Contract, transactionHash: string, currentHash: string) {
+  // web3's typings leave it out, at runtime every contract carries the provider it was created with
+  const web3 = new Web3((registry as unknown as { currentProvider: provider }).currentProvider);
+  const transaction = await web3.eth.getTransaction(transactionHash);
+  if (!transaction || transaction.to?.toLowerCase() !== registry.options.address.toLowerCase()) {
+    return false;
+  }
+  return transaction.input.toLowerCase().includes(currentHash.slice(2).toLowerCase());
+}
+
+// Checks the record either against its directly anchored hash or against the root of its Merkle batch.
+// The status fields are written by the browser, so they never excuse a record that differs from what is anchored
+export async function checkIntegrity(registry: Contract, recordId: string, patient: StoredPatient, orgId: string): Promise<IntegrityResult> {
+  // An erased record has no data left to hash, the on-chain tombstone is what gets reported
+  const erasure = await registry.methods.getErasure(recordId).call();
+  if (erasure.erased) {
+    const record = await registry.methods.getPatientRecord(recordId).call();
+    return {
+      status: "erased",
+      mode: patient.merkleProof ? "merkle" : "direct",
+      storedHash: record.dataHash,
+      currentHash: "",
+      erasedAt: Number(erasure.timestamp),
+      erasureReason: Number(erasure.reason) as ErasureReason
+    };
+  }
+
+  const anchored = patient.merkleProof
+    ? await checkMerkleProof(registry, recordId, orgId, patient.merkleProof, patient)
+    : await checkAnchoredHash(registry, recordId, patient);
+  const inFlight = patient.merklePending || (patient.anchoringStatus !== undefined && patient.anchoringStatus !== "anchored");
+  if (!inFlight) {
+    return anchored;
+  }
+
+  // The chain still holds the previous version, or nothing, until the submission goes through.
+  // A mined transaction could still be undone by a reorg, so it is only reported as final once it is
+  const pending: IntegrityResult = {
+    status: "pending",
+    mode: patient.merkleProof || patient.merklePending ? "merkle" : "direct",
+    storedHash: "",
+    currentHash: hashRecord(patient),
+    confirmations: patient.anchorReceipt?.confirmations || undefined
+  };
+  // Matching what is anchored, or with nothing anchored at the address yet, the record has nothing to differ from.
+  // A record that claims to wait for a Merkle batch has no anchor to show for it, removing a proof must not pass as that
+  if (anchored.status === "verified") {
+    return pending;
+  }
+  if (anchored.mode === "direct" && anchored.schemaVersion === 0) {
+    return patient.merklePending ? { ...anchored, status: "compromised", mode: "merkle", storedHash: "" } : pending;
+  }
+  const transactionHash = patient.anchorReceipt?.transactionHash;
+  if (transactionHash && await submittedWithHash(registry, transactionHash, pending.currentHash)) {
+    return pending;
+  }
+  return anchored;
+}
+
+async function checkAnchoredHash(registry: Contract, recordId: string, patient: StoredPatient): Promise<IntegrityResult> {
+  const record = await registry.methods.getPatientRecord(recordId).call();
+  const algorithm = Number(record.algorithm) as HashAlgorithm;
+  const schemaVersion = Number(record.schemaVersion);
+  const storedHash: string = record.dataHash;
+  const attestedBy: string = record.attestedBy;
+
+  // Schema version 0 means the address was never anchored
+  const currentHash = schemaVersion > 0 ? hashRecord(patient, algorithm, schemaVersion) : hashRecord(patient);
+  return {
+    status: storedHash.toLowerCase() === currentHash.toLowerCase() ? "verified" : "compromised",
+    mode: "direct",
+    storedHash,
+    currentHash,
+    algorithm,
+    schemaVersion,
+    // Only records submitted with an EIP-712 signature carry a signer
+    attestedBy: Number(attestedBy) !== 0 ? attestedBy : undefined
+  };
+}
+
+async function checkMerkleProof(
+  registry: Contract,
+  recordId: string,
+  orgId: string,
+  merkleProof: MerkleProof,
+  patient: StoredPatient
+): Promise<IntegrityResult> {
+  const { batchId, proof } = merkleProof;
+  const batch = await registry.methods.getMerkleBatch(batchId).call();
+  const algorithm = Number(batch.algorithm) as HashAlgorithm;
+  const schemaVersion = Number(batch.schemaVersion);
+
+  // The leaf is recomputed with the rules the batch was anchored under, not the current ones
+  const currentHash = hashRecord(patient, algorithm, schemaVersion);
+  const root: string = batch.root;
+  // A batch of another institution proves nothing about this one's records
+  const ownBatch = batch.institutionId === institutionId(orgId);
+  return {
+    status: ownBatch && verifyMerkleProof(merkleLeaf(recordId, currentHash), proof, root) ? "verified" : "compromised",
+    mode: "merkle",
+    storedHash: root,
+    currentHash,
+    batchId,
+    algorithm,
+    schemaVersion
+  };
+}
@@ -0,0 +1,55 @@
+import { ref, get, update } from "firebase/database";
+import { database } from "firebaseConfig";
+import { institutionId, institutionPath } from "~/lib/institution";
+import { encryptRecord, isEncrypted } from "~/lib/encryption";
+import { issueRecordKeys } from "~/lib/encryption.server";
+import { readOnlyContract } from "~/lib/chain.server";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+
+// Written before records were scoped to organizations, in plain text and readable by every signed-in user
+const LEGACY_PATIENTS = "patients";
+const LEGACY_MERKLE_QUEUE = "merkleQueue";
+
+export interface LegacyClaim {
+  moved: string[];
+  skipped: { address: string; reason: string }[];
+}
+
+// Moves the legacy records into the organization, encrypted with its keys, and removes the global copies.
+// Addresses the registry already attributes to another institution stay where they are
+export async function claimLegacyPatients(orgId: string): Promise<LegacyClaim> {
+  const registry = await readOnlyContract(PatientRegistryABI);
+  const [patients, merkleQueue, claimed] = await Promise.all([
+    get(ref(database, LEGACY_PATIENTS)),
+    get(ref(database, LEGACY_MERKLE_QUEUE)),
+    get(ref(database, institutionPath(orgId, "patients"))),
+  ]);
+  const queued: { [address: string]: unknown } = merkleQueue.val() || {};
+  const existing: { [address: string]: unknown } = claimed.val() || {};
+  const ownId = institutionId(orgId);
+
+  const result: LegacyClaim = { moved: [], skipped: [] };
+  for (const [address, record] of Object.entries((patients.val() || {}) as { [address: string]: { firstName?: string } })) {
+    const owner: string = await registry.methods.getPatientInstitution(address).call();
+    if (Number(owner) !== 0 && owner.toLowerCase() !== ownId.toLowerCase()) {
+      result.skipped.push({ address, reason: "Registered by another institution" });
+      continue;
+    }
+    if (existing[address]) {
+      result.skipped.push({ address, reason: "The organization already has a record at this address" });
+      continue;
+    }
+
+    const [key] = issueRecordKeys(orgId, [record.firstName ?? ""]);
+    // One multi-path update, so a record is never both moved and still readable globally
+    await update(ref(database), {
+      [institutionPath(orgId, `patients/${address}`)]: isEncrypted(record) ? record : encryptRecord(record, key),
+      [`${LEGACY_PATIENTS}/${address}`]: null,
+      ...(queued[address]
+        ? { [institutionPath(orgId, `merkleQueue/${address}`)]: queued[address], [`${LEGACY_MERKLE_QUEUE}/${address}`]: null }
+        : {}),
+    });
+    result.moved.push(address);
+  }
+  return result;
+}
@@ -0,0 +1,67 @@
+import CryptoJS from 'crypto-js';
+
+// Hashes are bytes32 hex strings; the 0x prefix is optional on input and always present on output
+
+export interface MerkleTree {
+  root: string;
+  proofs: string[][];
+}
+
+// Where a record's hash sits in an anchored batch, stored next to the record in Firebase
+export interface MerkleProof {
+  batchId: number;
+  root: string;
+  proof: string[];
+}
+
+const strip = (hash: string) => hash.toLowerCase().replace(/^0x/, '');
+
+// Prefixed to every leaf so an interior node can never be passed off as one, as in RFC 6962
+const LEAF_TAG = '00';
+
+// A leaf binds the record's hash to its patient, a proof copied to another patient's record does not verify
+export function merkleLeaf(patientAddress: string, dataHash: string) {
+  return '0x' + CryptoJS.SHA256(CryptoJS.enc.Hex.parse(LEAF_TAG + strip(patientAddress) + strip(dataHash))).toString();
+}
+
+// Pairs are sorted before hashing so a proof needs no left/right flags, same as PatientRegistry.verifyMerkleProof
+export function hashPair(a: string, b: string) {
+  const [first, second] = [strip(a), strip(b)].sort();
+  return '0x' + CryptoJS.SHA256(CryptoJS.enc.Hex.parse(first + second)).toString();
+}
+
+// Builds the tree bottom-up; an unpaired node is carried up to the next level unchanged
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  let level = leaves.map((leaf) => '0x' + strip(leaf));
+  // Index of each leaf's ancestor in the current level
+  const positions = leaves.map((_, index) => index);
+  const proofs: string[][] = leaves.map(() => []);
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+
+    positions.forEach((position, leaf) => {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        proofs[leaf].push(level[sibling]);
+      }
+      positions[leaf] = Math.floor(position / 2);
+    });
+
+    level = next;
+  }
+
+  return { root: level[0], proofs };
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string) {
+  const computed = proof.reduce((hash, sibling) => hashPair(hash, sibling), strip(leaf));
+  return strip(computed) === strip(root);
+}
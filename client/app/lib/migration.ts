@@ -0,0 +1,170 @@
+import type { Contract } from "web3-eth-contract";
+import { ref, set, type Database } from "firebase/database";
+import { searchPatients, type LegacyPatientRecord } from "~/lib/patient";
+import { sealRecords } from "~/lib/encryption";
+import { hashRecord, CURRENT_HASH_ALGORITHM } from "~/lib/hashing";
+import { anchorWithStatus, walletSender } from "~/lib/anchoring";
+import { institutionId, institutionPath } from "~/lib/institution";
+
+// Rows anchored per registerPatients transaction, same limit as the cohort import
+export const MIGRATION_BATCH_SIZE = 50;
+
+// The only fields the v1 registry stored, in plain text on-chain
+const V1_FIELDS = ["firstName", "lastName", "contactNumber", "gender", "cancerType"] as const;
+
+export interface V1Patient {
+  address: string;
+  firstName: string;
+  lastName: string;
+  contactNumber: string;
+  gender: string;
+  cancerType: string;
+}
+
+// Firebase shape of a migrated patient, v1 had no age, email or registration time
+export interface MigratedRecord extends LegacyPatientRecord {
+  migratedFrom: string;
+}
+
+// v1 never captured a diagnosis, so migrated records are anchored with the demographics-only schema
+const MIGRATED_SCHEMA_VERSION = 1;
+
+export type MigrationOutcome = "pending" | "migrated" | "skipped" | "conflict" | "failed";
+
+export interface MigrationEntry {
+  patient: V1Patient;
+  outcome: MigrationOutcome;
+  detail: string;
+  transactionHash?: string;
+}
+
+// Reads every patient of a v1 deployment, the same address can appear more than once in patientAddresses
+export async function readV1Patients(legacyRegistry: Contract): Promise<V1Patient[]> {
+  const count = Number(await legacyRegistry.methods.getPatientCount().call());
+  const seen = new Set<string>();
+  const patients: V1Patient[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const address: string = await legacyRegistry.methods.patientAddresses(i).call();
+    if (seen.has(address.toLowerCase())) continue;
+    seen.add(address.toLowerCase());
+
+    // v1 overwrote the struct on every registration, so getPatient already holds the latest details
+    const result = await legacyRegistry.methods.getPatient(address).call();
+    patients.push({
+      address,
+      firstName: result.firstName,
+      lastName: result.lastName,
+      contactNumber: result.contactNumber,
+      gender: result.gender,
+      cancerType: result.cancerType,
+    });
+  }
+  return patients;
+}
+
+export function toMigratedRecord(patient: V1Patient, legacyAddress: string, timestamp = Math.floor(Date.now() / 1000)): MigratedRecord {
+  return {
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    contactNumber: patient.contactNumber,
+    gender: patient.gender,
+    cancerType: patient.cancerType,
+    age: "",
+    email: "",
+    timestamp,
+    migratedFrom: legacyAddress,
+  };
+}
+
+// Decides what to do with a v1 patient before anything is written, existing data is never overwritten
+export async function classifyV1Patient(registry: Contract, orgId: string, patient: V1Patient): Promise<MigrationEntry> {
+  if (V1_FIELDS.every((field) => patient[field] === "")) {
+    return { patient, outcome: "skipped", detail: "Empty record in the v1 registry" };
+  }
+
+  const erasure = await registry.methods.getErasure(patient.address).call();
+  if (erasure.erased) {
+    return { patient, outcome: "skipped", detail: "Record was erased in the current registry" };
+  }
+
+  const owner: string = await registry.methods.getPatientInstitution(patient.address).call();
+  if (Number(owner) !== 0 && owner.toLowerCase() !== institutionId(orgId).toLowerCase()) {
+    return { patient, outcome: "conflict", detail: "Registered by another institution" };
+  }
+
+  // Compared field by field, so the existing record is read back decrypted
+  const { patients, restricted } = await searchPatients<LegacyPatientRecord>({ address: patient.address });
+  const existing = patients[patient.address];
+  const versionCount = Number(await registry.methods.getVersionCount(patient.address).call());
+
+  if (restricted.length > 0) {
+    return { patient, outcome: "conflict", detail: "Database record exists, the patient has not granted this wallet access to compare it" };
+  }
+  if (existing) {
+    const differing = V1_FIELDS.filter((field) => existing[field] !== patient[field]);
+    if (differing.length === 0 && versionCount > 0) {
+      return { patient, outcome: "skipped", detail: "Already migrated" };
+    }
+    return {
+      patient,
+      outcome: "conflict",
+      detail: differing.length > 0
+        ? `Database record differs in: ${differing.join(", ")}`
+        : "Database record exists but was never anchored",
+    };
+  }
+
+  if (versionCount > 0) {
+    return { patient, outcome: "conflict", detail: "Anchored in the current registry without a database record" };
+  }
+
+  return { patient, outcome: "pending", detail: "Ready to migrate" };
+}
+
+// Writes a batch to Firebase and anchors its hashes in one registerPatients transaction
+export async function migrateBatch(
+  registry: Contract,
+  database: Database,
+  orgId: string,
+  entries: MigrationEntry[],
+  legacyAddress: string,
+  account: string
+) {
+  const records = entries.map((entry) => toMigratedRecord(entry.patient, legacyAddress));
+  const storedRecords = await sealRecords(records);
+
+  for (let i = 0; i < entries.length; i++) {
+    await set(ref(database, institutionPath(orgId, `patients/${entries[i].patient.address}`)), { ...storedRecords[i], anchoringStatus: "draft" });
+  }
+
+  const requests = entries.map((entry, i) => ({
+    patientAddress: entry.patient.address,
+    dataHash: hashRecord(records[i], CURRENT_HASH_ALGORITHM, MIGRATED_SCHEMA_VERSION),
+    algorithm: CURRENT_HASH_ALGORITHM,
+    schemaVersion: MIGRATED_SCHEMA_VERSION
+  }));
+  const transactionHash = await anchorWithStatus(database, orgId, requests, walletSender(registry.methods.registerPatients(
+    requests.map((request) => request.patientAddress),
+    institutionId(orgId),
+    requests.map((request) => request.dataHash),
+    CURRENT_HASH_ALGORITHM,
+    MIGRATED_SCHEMA_VERSION
+  ), account));
+
+  for (const entry of entries) {
+    entry.outcome = "migrated";
+    entry.detail = "Migrated";
+    entry.transactionHash = transactionHash ?? undefined;
+  }
+}
+
+// Flat rows for the downloadable reconciliation report
+export function toReportRows(entries: MigrationEntry[]) {
+  return entries.map((entry) => ({
+    address: entry.patient.address,
+    outcome: entry.outcome,
+    detail: entry.detail,
+    transactionHash: entry.transactionHash || "",
+  }));
+}
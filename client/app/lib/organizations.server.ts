@@ -0,0 +1,22 @@
+import { createClerkClient } from "@clerk/remix/api.server";
+import { institutionId } from "~/lib/institution";
+
+const PAGE_SIZE = 100;
+
+// On-chain institution id => Clerk organization id, kept for the life of the server process
+const organizations = new Map<string, string>();
+
+// The Clerk organization behind an on-chain institution id. The chain only has the hash of the org id, so the
+// organizations are listed and hashed, again whenever an id is not known yet
+export async function organizationForInstitution(id: string): Promise<string | null> {
+  const known = organizations.get(id.toLowerCase());
+  if (known) return known;
+
+  const clerk = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY });
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, totalCount } = await clerk.organizations.getOrganizationList({ limit: PAGE_SIZE, offset });
+    data.forEach((organization) => organizations.set(institutionId(organization.id).toLowerCase(), organization.id));
+    if (offset + PAGE_SIZE >= totalCount) break;
+  }
+  return organizations.get(id.toLowerCase()) ?? null;
+}
@@ -0,0 +1,20 @@
+import Web3 from "web3";
+
+// A generated patient id together with the key that controls it
+export interface PatientKeypair {
+  address: string;
+  privateKey: string;
+}
+
+// A fresh EIP-55 checksummed address for a new patient. The private key is handed to the patient once, on the
+// printed ID card or in the import's key sheet, and is never stored or sent to the server. Imported into a wallet
+// it signs grantConsent and revokeConsent, the registering institution's clinicians read the record without a grant
+export function generatePatientId(): PatientKeypair {
+  const { address, privateKey } = new Web3().eth.accounts.create();
+  return { address, privateKey };
+}
+
+// Mixed-case ids must match their EIP-55 checksum, so a mistyped character is caught before anything is anchored
+export function isValidPatientId(value: string) {
+  return Web3.utils.isAddress(value);
+}
@@ -0,0 +1,212 @@
+import * as z from "zod"
+import { isValidPatientId } from "~/lib/patient-id";
+import { codeDiagnosis, isMorphologyCode, isTopographyCode, validateCoding, type DiagnosisCoding } from "~/lib/icd";
+import type { IndexedRegistration } from "~/lib/indexer.server";
+
+// Step 1 of the intake wizard
+export const demographicsSchema = z.object({
+    address: z.string().refine(isValidPatientId, {
+      message: "Patient ID must be a valid Ethereum address, check it against the patient's card.",
+    }),
+    firstName: z.string().min(2, {
+      message: "First name must be at least 2 characters.",
+    }),
+    lastName: z.string().min(2, {
+      message: "Last name must be at least 2 characters.",
+    }),
+    gender: z.string({
+      required_error: "Please select a gender.",
+    }),
+    contactNumber: z.string().min(10, {
+      message: "Contact number must be at least 10 digits.",
+    }),
+    age: z.string().min(1, {
+      message: "Age is required.",
+    }),
+    dateOfBirth: z.string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Please enter the date of birth." })
+      .refine((value) => new Date(value).getTime() <= Date.now(), { message: "The date of birth cannot be in the future." }),
+    email: z.string().email({
+      message: "SUPER VALID email address.",
+    }),
+})
+
+export const GENDERS = {
+  male: "Male",
+  female: "Female",
+} as const;
+
+// Most valid basis of diagnosis, as coded by cancer registries (IACR/ENCR)
+export const BASIS_OF_DIAGNOSIS = {
+  deathCertificate: "Death certificate only",
+  clinical: "Clinical",
+  clinicalInvestigation: "Clinical investigation",
+  tumourMarkers: "Specific tumour markers",
+  cytology: "Cytology",
+  metastasisHistology: "Histology of a metastasis",
+  primaryHistology: "Histology of the primary tumour",
+  unknown: "Unknown",
+} as const;
+
+export const TUMOUR_GRADES = {
+  G1: "G1 - Well differentiated",
+  G2: "G2 - Moderately differentiated",
+  G3: "G3 - Poorly differentiated",
+  G4: "G4 - Undifferentiated",
+  GX: "GX - Cannot be assessed",
+} as const;
+
+export const LATERALITY = {
+  left: "Left",
+  right: "Right",
+  bilateral: "Bilateral",
+  notApplicable: "Not a paired organ",
+  unknown: "Unknown",
+} as const;
+
+export const T_CATEGORIES = ["TX", "T0", "Tis", "T1", "T2", "T3", "T4"] as const;
+export const N_CATEGORIES = ["NX", "N0", "N1", "N2", "N3"] as const;
+export const M_CATEGORIES = ["M0", "M1"] as const;
+export const STAGE_GROUPS = ["0", "I", "II", "III", "IV"] as const;
+
+// z.enum needs a non-empty tuple, the option maps above are the single source of the allowed values
+const keysOf = <T extends object>(options: T) => Object.keys(options) as [keyof T & string, ...(keyof T & string)[]];
+
+// Step 2 of the intake wizard, before the site and histology are checked against each other
+export const diagnosisFieldsSchema = z.object({
+    diagnosisDate: z.string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Please enter the date of diagnosis." })
+      .refine((value) => new Date(value).getTime() <= Date.now(), { message: "The date of diagnosis cannot be in the future." }),
+    basisOfDiagnosis: z.enum(keysOf(BASIS_OF_DIAGNOSIS), {
+      errorMap: () => ({ message: "Please select the basis of diagnosis." }),
+    }),
+    topographyCode: z.string().refine(isTopographyCode, {
+      message: "Please select the primary site from the ICD-O-3 topography list.",
+    }),
+    morphologyCode: z.string().refine(isMorphologyCode, {
+      message: "Please select the histology from the ICD-O-3 morphology list.",
+    }),
+    histology: z.string().min(2, {
+      message: "Histology must be at least 2 characters.",
+    }),
+    grade: z.enum(keysOf(TUMOUR_GRADES), {
+      errorMap: () => ({ message: "Please select a grade." }),
+    }),
+    laterality: z.enum(keysOf(LATERALITY), {
+      errorMap: () => ({ message: "Please select the laterality." }),
+    }),
+})
+
+// Step 3 of the intake wizard, the stage group is optional because it is not defined for every site
+export const stagingSchema = z.object({
+    tCategory: z.enum(T_CATEGORIES, {
+      errorMap: () => ({ message: "Please select the T category." }),
+    }),
+    nCategory: z.enum(N_CATEGORIES, {
+      errorMap: () => ({ message: "Please select the N category." }),
+    }),
+    mCategory: z.enum(M_CATEGORIES, {
+      errorMap: () => ({ message: "Please select the M category." }),
+    }),
+    stageGroup: z.union([z.enum(STAGE_GROUPS), z.literal("")]),
+})
+
+// Reported on the histology field, that is the one a clinician corrects when the pair is impossible
+const checkCoding = (values: { topographyCode: string; morphologyCode: string }, ctx: z.RefinementCtx) => {
+  if (!isTopographyCode(values.topographyCode) || !isMorphologyCode(values.morphologyCode)) return;
+  const problem = validateCoding(values.topographyCode, values.morphologyCode);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["morphologyCode"], message: problem });
+  }
+};
+
+export const diagnosisSchema = diagnosisFieldsSchema.superRefine(checkCoding);
+
+// Every field of the wizard, its shape lists the spreadsheet columns and the query parameters of the form
+export const patientFieldsSchema = demographicsSchema.merge(diagnosisFieldsSchema).merge(stagingSchema);
+
+// The review step and the spreadsheet import validate everything at once
+export const formSchema = patientFieldsSchema.superRefine(checkCoding);
+
+export type PatientFormValues = z.infer<typeof formSchema>;
+
+export interface DemographicRecord {
+  firstName: string;
+  lastName: string;
+  contactNumber: string;
+  gender: string;
+  age: string;
+  // Missing on records from before schema version 4
+  dateOfBirth?: string;
+  email: string;
+  timestamp: number;
+}
+
+// Fields of a schema version 1 record, which is what v1 migrations still produce
+export interface LegacyPatientRecord extends DemographicRecord {
+  cancerType: string;
+}
+
+// Captured by the diagnosis and staging steps of the intake wizard
+export interface DiagnosisRecord extends DiagnosisCoding {
+  diagnosisDate: string;
+  basisOfDiagnosis: string;
+  histology: string;
+  grade: string;
+  laterality: string;
+  tCategory: string;
+  nCategory: string;
+  mCategory: string;
+  stageGroup: string;
+}
+
+// The record stored in Firebase under patients/{address}, and the fields covered by the anchored hash
+export interface PatientRecordData extends DemographicRecord, DiagnosisRecord {}
+
+export function toPatientRecord(values: PatientFormValues, timestamp = Math.floor(Date.now() / 1000)): PatientRecordData {
+  return {
+    firstName: values.firstName,
+    lastName: values.lastName,
+    contactNumber: values.contactNumber,
+    gender: values.gender,
+    age: values.age,
+    dateOfBirth: values.dateOfBirth,
+    email: values.email,
+    diagnosisDate: values.diagnosisDate,
+    basisOfDiagnosis: values.basisOfDiagnosis,
+    ...codeDiagnosis(values.topographyCode, values.morphologyCode),
+    histology: values.histology,
+    grade: values.grade,
+    laterality: values.laterality,
+    tCategory: values.tCategory,
+    nCategory: values.nCategory,
+    mCategory: values.mCategory,
+    stageGroup: values.stageGroup,
+    timestamp
+  };
+}
+
+export function changedFields(before: PatientFormValues, after: PatientFormValues) {
+  return (Object.keys(patientFieldsSchema.shape) as (keyof PatientFormValues)[])
+    .filter((field) => (before[field] ?? "") !== (after[field] ?? ""));
+}
+
+export interface PatientSearchResult<T> {
+  patients: { [address: string]: T };
+  // Matches the linked wallet may not read, an emergency access id for one of them opens it
+  restricted: string[];
+  // Indexed PatientRegistered events of the readable matches, keyed by lowercased address
+  registrations: { [address: string]: IndexedRegistration[] };
+}
+
+// Encrypted records are only readable through the server, which decrypts them for the active organization
+export async function searchPatients<T>(
+  search: ({ address: string } | { name: string }) & { emergencyAccessId?: string }
+): Promise<PatientSearchResult<T>> {
+  const response = await fetch(`/api/patients?${new URLSearchParams(search)}`);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error);
+  }
+  return { patients: result.patients, restricted: result.restricted, registrations: result.registrations };
+}
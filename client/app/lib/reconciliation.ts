@@ -0,0 +1,73 @@
+import type { Contract } from "web3-eth-contract";
+import { checkIntegrity, type IntegrityResult, type StoredPatient } from "~/lib/integrity";
+import { institutionId } from "~/lib/institution";
+
+// Addresses requested per getInstitutionPatientAddresses call
+export const ENUMERATION_PAGE_SIZE = 100;
+
+export interface ReconciledPatient extends StoredPatient {
+  transactionHash?: string;
+}
+
+export interface ReconciliationReport {
+  // In Firebase but never anchored, Merkle-queued records are flagged rather than left out
+  unanchored: { address: string; patient: ReconciledPatient }[];
+  // Anchored on-chain with no Firebase record behind them
+  orphaned: string[];
+  // Anchored, but the Firebase data no longer hashes to the anchored value
+  mismatched: { address: string; patient: ReconciledPatient; result: IntegrityResult }[];
+  chainCount: number;
+  databaseCount: number;
+}
+
+// Pages through the institution's enumeration until a short page marks the end
+export async function fetchRegisteredAddresses(registry: Contract, orgId: string, pageSize = ENUMERATION_PAGE_SIZE): Promise<string[]> {
+  const addresses: string[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const page: string[] = await registry.methods.getInstitutionPatientAddresses(institutionId(orgId), offset, pageSize).call();
+    addresses.push(...page);
+    if (page.length < pageSize) break;
+  }
+  return addresses;
+}
+
+// Compares the institution's registrations with its Firebase patients node, addresses are matched case-insensitively
+export async function reconcile(
+  registry: Contract,
+  orgId: string,
+  patients: { [address: string]: ReconciledPatient }
+): Promise<ReconciliationReport> {
+  const registered = await fetchRegisteredAddresses(registry, orgId);
+  const registeredKeys = new Set(registered.map((address) => address.toLowerCase()));
+  const databaseKeys = new Set(Object.keys(patients).map((address) => address.toLowerCase()));
+
+  const report: ReconciliationReport = {
+    unanchored: [],
+    orphaned: registered.filter((address) => !databaseKeys.has(address.toLowerCase())),
+    mismatched: [],
+    chainCount: registered.length,
+    databaseCount: Object.keys(patients).length,
+  };
+
+  for (const [address, patient] of Object.entries(patients)) {
+    if (patient.erased) continue;
+
+    if (!patient.transactionHash) {
+      report.unanchored.push({ address, patient });
+      continue;
+    }
+
+    // Merkle-anchored records are not in the enumeration, their proof is what checkIntegrity verifies
+    if (!patient.merkleProof && !registeredKeys.has(address.toLowerCase())) {
+      report.unanchored.push({ address, patient });
+      continue;
+    }
+
+    const result = await checkIntegrity(registry, address, patient, orgId);
+    if (result.status === "compromised") {
+      report.mismatched.push({ address, patient, result });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,43 @@
+import type { Contract } from "web3-eth-contract";
+import { signAttestation } from "~/lib/attestation";
+import { CURRENT_HASH_ALGORITHM, CURRENT_SCHEMA_VERSION } from "~/lib/hashing";
+import { institutionId } from "~/lib/institution";
+
+// Anchors through /api/relay, which records the signed-in Clerk user against the transaction. The relayer only pays
+// for the gas, the clinician's linked wallet still signs an attestation and the record names them
+export async function anchorViaRelayer(
+  patientAddress: string,
+  dataHash: string,
+  patientRegistry: Contract | null,
+  account: string,
+  orgId: string
+) {
+  if (!account || !patientRegistry) {
+    throw new Error("Connect your wallet to sign the attestation the relayer submits");
+  }
+  const attestation = await signAttestation(patientRegistry, account, {
+    patientAddress,
+    // The relayer anchors for the signed-in user's active organization, the signature has to cover the same one
+    institutionId: institutionId(orgId),
+    dataHash,
+    algorithm: CURRENT_HASH_ALGORITHM,
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  });
+
+  const response = await fetch("/api/relay", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      patientAddress,
+      dataHash,
+      algorithm: CURRENT_HASH_ALGORITHM,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      attestation
+    })
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error);
+  }
+  return result.transactionHash as string;
+}
@@ -0,0 +1,175 @@
+import Web3 from "web3";
+import HDWalletProvider from "@truffle/hdwallet-provider";
+import type { Contract, ContractSendMethod } from "web3-eth-contract";
+import type { AbstractProvider } from "web3-core";
+import { ref, set } from "firebase/database";
+import { database } from "firebaseConfig";
+import { loadContract } from "~/lib/web3";
+import { institutionId, institutionPath } from "~/lib/institution";
+import type { HashAlgorithm } from "~/lib/hashing";
+import type { SignedAttestation } from "~/lib/attestation";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+
+// Same provider setup as the sepolia network in truffle-config.js, but with a key of its own, the deployer's
+// MNEMONIC is the registry admin and never belongs on the web server. RELAYER_RPC_URL overrides the endpoint
+const { MNEMONIC, RELAYER_MNEMONIC, PROJECT_ID, RELAYER_RPC_URL } = process.env;
+
+// Transactions each Clerk user may relay per window
+const RATE_LIMIT = Number(process.env.RELAYER_RATE_LIMIT || 10);
+const RATE_WINDOW_MS = Number(process.env.RELAYER_RATE_WINDOW_MS || 60 * 60 * 1000);
+
+export class RelayerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface RelayRequest {
+  userId: string;
+  orgId: string;
+  patientAddress: string;
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+  // Signed by the requester's linked wallet, the registry checks it belongs to an allowlisted clinician
+  attestation: SignedAttestation;
+}
+
+interface Relayer {
+  web3: Web3;
+  registry: Contract;
+  from: string;
+}
+
+let relayer: Promise<Relayer> | null = null;
+
+// Next nonce to use, tracked locally so concurrent requests do not reuse the pending count
+let nextNonce: number | null = null;
+
+// Sends run one at a time, each waits for the previous one to be handed to the node
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+// Request timestamps per Clerk user inside the current window
+const requestLog = new Map<string, number[]>();
+
+async function getRelayer(): Promise<Relayer> {
+  if (!relayer) {
+    relayer = (async () => {
+      if (!RELAYER_MNEMONIC) {
+        throw new RelayerError("The relayer is not configured", 503);
+      }
+      if (RELAYER_MNEMONIC === MNEMONIC) {
+        throw new RelayerError("The relayer must not use the deployer's key", 503);
+      }
+
+      const provider = new HDWalletProvider(RELAYER_MNEMONIC, RELAYER_RPC_URL || `wss://eth-sepolia.g.alchemy.com/v2/${PROJECT_ID}`);
+      // The provider's sendAsync callback is typed stricter than web3's, it is compatible at runtime
+      const web3 = new Web3(provider as unknown as AbstractProvider);
+      const networkId = await web3.eth.net.getId();
+      const registry = loadContract(web3, PatientRegistryABI, networkId);
+      if (!registry) {
+        throw new RelayerError("The smart contract is not deployed to the relayer's network", 503);
+      }
+
+      const from = provider.getAddress(0);
+      const admin: string = await registry.methods.admin().call();
+      if (admin.toLowerCase() === from.toLowerCase()) {
+        throw new RelayerError("The relayer must not use the registry admin's key", 503);
+      }
+      return { web3, registry, from };
+    })();
+
+    // A failed setup is retried on the next request instead of being cached
+    relayer.catch(() => (relayer = null));
+  }
+  return relayer;
+}
+
+function recentRequests(userId: string) {
+  const now = Date.now();
+  return (requestLog.get(userId) || []).filter((time) => now - time < RATE_WINDOW_MS);
+}
+
+// Taken before anything is awaited, so concurrent requests cannot all pass the check at once
+function reserveRequest(userId: string) {
+  const recent = recentRequests(userId);
+  if (recent.length >= RATE_LIMIT) {
+    throw new RelayerError("Too many relayed transactions, please try again later", 429);
+  }
+  const reservedAt = Date.now();
+  requestLog.set(userId, [...recent, reservedAt]);
+  return reservedAt;
+}
+
+// A request rejected before anything was sent does not use up the quota
+function releaseRequest(userId: string, reservedAt: number) {
+  const log = requestLog.get(userId) || [];
+  const index = log.indexOf(reservedAt);
+  if (index !== -1) {
+    requestLog.set(userId, [...log.slice(0, index), ...log.slice(index + 1)]);
+  }
+}
+
+// Submits a clinician's signed attestation from the server-held key on behalf of a Clerk user
+export async function relayRegistration(request: RelayRequest) {
+  const reservedAt = reserveRequest(request.userId);
+  let relayer: Relayer;
+  let method: ContractSendMethod;
+  try {
+    relayer = await getRelayer();
+    method = relayer.registry.methods.registerAttestedPatient(
+      request.patientAddress,
+      institutionId(request.orgId),
+      request.dataHash,
+      request.algorithm,
+      request.schemaVersion,
+      request.attestation.clinician,
+      request.attestation.signature
+    );
+
+    // A dry run surfaces reverts (paused registry, bad signature, signer off the allowlist) before a nonce is spent
+    try {
+      await method.call({ from: relayer.from });
+    } catch (error) {
+      throw new RelayerError(`The registry rejected the transaction: ${(error as Error).message}`, 422);
+    }
+  } catch (error) {
+    releaseRequest(request.userId, reservedAt);
+    throw error;
+  }
+  const { web3, from } = relayer;
+
+  const send = sendQueue.then(async () => {
+    const nonce = nextNonce ?? await web3.eth.getTransactionCount(from, "pending");
+
+    // The request returns once the node accepts the transaction, a later revert is only logged
+    const sent = method.send({ from, nonce });
+    sent.catch((error: Error) => console.error("Relayed transaction failed:", error));
+
+    const transactionHash = await new Promise<string>((resolve, reject) => {
+      sent.once("transactionHash", resolve).once("error", reject);
+    }).catch((error) => {
+      // The local count may have drifted, read it from the node again next time
+      nextNonce = null;
+      throw error;
+    });
+
+    nextNonce = nonce + 1;
+    return { transactionHash, nonce };
+  });
+  sendQueue = send.catch(() => undefined);
+
+  const { transactionHash, nonce } = await send;
+
+  await set(ref(database, institutionPath(request.orgId, `relayedTransactions/${transactionHash}`)), {
+    requestedBy: request.userId,
+    method: "registerAttestedPatient",
+    attestedBy: request.attestation.clinician,
+    patientAddress: request.patientAddress,
+    relayer: from,
+    nonce,
+    timestamp: Math.floor(Date.now() / 1000),
+  });
+
+  return { transactionHash, relayer: from };
+}
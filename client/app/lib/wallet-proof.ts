@@ -0,0 +1,29 @@
+import Web3 from "web3";
+
+// Names the Clerk user as well, a signature one user sent cannot be replayed to link the wallet to another
+export function walletProofMessage(userId: string, wallet: string, issuedAt: number) {
+  return `Link wallet ${wallet.toLowerCase()} to registry user ${userId}\nIssued at: ${issuedAt}`;
+}
+
+// Has the connected wallet sign the proof, the server then reads consent for that wallet instead of trusting the browser
+export async function proveWallet(userId: string, wallet: string) {
+  if (!window.ethereum) {
+    throw new Error("No browser wallet is available");
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const signature = await window.ethereum.request({
+    method: "personal_sign",
+    params: [Web3.utils.utf8ToHex(walletProofMessage(userId, wallet, issuedAt)), wallet],
+  }) as string;
+
+  const response = await fetch("/api/wallet", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ wallet, issuedAt, signature }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error);
+  }
+}
@@ -0,0 +1,66 @@
+import Web3 from "web3";
+import { createCookie } from "@remix-run/node";
+import { walletProofMessage } from "~/lib/wallet-proof";
+
+// Signs the session cookie, without it a browser could name any wallet it likes
+const { WALLET_SESSION_SECRET } = process.env;
+
+// How long a linked wallet is trusted before it has to sign again
+const SESSION_MAX_AGE_SECONDS = Number(process.env.WALLET_SESSION_MAX_AGE_SECONDS || 8 * 60 * 60);
+// A proof is only accepted shortly after it was signed
+const PROOF_MAX_AGE_SECONDS = 5 * 60;
+
+export class WalletProofError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+interface WalletSession {
+  userId: string;
+  wallet: string;
+}
+
+function walletCookie() {
+  if (!WALLET_SESSION_SECRET) {
+    throw new Error("WALLET_SESSION_SECRET is not configured");
+  }
+  return createCookie("registry-wallet", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+    secrets: [WALLET_SESSION_SECRET],
+  });
+}
+
+// Checks the signature and returns the Set-Cookie header that links the wallet to the user
+export async function linkWallet(userId: string, wallet: string, issuedAt: number, signature: string): Promise<string> {
+  const age = Math.floor(Date.now() / 1000) - issuedAt;
+  if (age < -60 || age > PROOF_MAX_AGE_SECONDS) {
+    throw new WalletProofError("The wallet proof has expired, sign it again", 400);
+  }
+
+  let signer: string;
+  try {
+    signer = new Web3().eth.accounts.recover(walletProofMessage(userId, wallet, issuedAt), signature);
+  } catch (error) {
+    throw new WalletProofError("The wallet proof signature is invalid", 400);
+  }
+  if (signer.toLowerCase() !== wallet.toLowerCase()) {
+    throw new WalletProofError("The wallet proof was not signed by this wallet", 403);
+  }
+
+  const session: WalletSession = { userId, wallet: signer };
+  return walletCookie().serialize(session);
+}
+
+// The wallet the signed-in user proved to hold, or null when there is none or it was proved by another user
+export async function readVerifiedWallet(request: Request, userId: string): Promise<string | null> {
+  const session: WalletSession | null = await walletCookie().parse(request.headers.get("Cookie"));
+  if (!session || session.userId !== userId) {
+    return null;
+  }
+  return session.wallet;
+}
@@ -0,0 +1,44 @@
+import Web3 from "web3";
+import type { Contract } from "web3-eth-contract";
+import type { AbiItem } from "web3-utils";
+
+export interface ContractArtifact {
+  abi: unknown[];
+  networks: { [networkId: string]: { address: string } };
+}
+
+export interface ContractConnection {
+  web3: Web3;
+  account: string;
+  contract: Contract;
+}
+
+// Instantiates a truffle artifact on the given network, or returns null when it was never deployed there
+export function loadContract(web3: Web3, artifact: ContractArtifact, networkId: number): Contract | null {
+  const networkData = artifact.networks[networkId];
+  if (!networkData) {
+    return null;
+  }
+  return new web3.eth.Contract(artifact.abi as AbiItem[], networkData.address);
+}
+
+// Connects to the injected wallet and loads the truffle artifact deployed on the wallet's current network
+export async function connectContract(artifact: ContractArtifact): Promise<ContractConnection | null> {
+  if (!window.ethereum) {
+    window.alert("Non-Ethereum browser detected. You should consider trying MetaMask!");
+    return null;
+  }
+
+  const web3 = new Web3(window.ethereum);
+  const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' }) as string[];
+
+  const networkId = await web3.eth.net.getId();
+  const contract = loadContract(web3, artifact, networkId);
+
+  if (!contract) {
+    window.alert('The smart contract is not deployed to the current network');
+    return null;
+  }
+
+  return { web3, account: accounts[0], contract };
+}
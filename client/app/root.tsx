@@ -38,9 +38,9 @@ export function App() {
       </head>
       <body className="container mx-auto">
         <Toaster/>
-        <Navigation />
+        <div className="print:hidden"><Navigation /></div>
         <main><Outlet /></main>
-        <Footer />
+        <div className="print:hidden"><Footer /></div>
         <ScrollRestoration />
         <Scripts />
         <LiveReload />
@@ -1,17 +1,310 @@
-import { OrganizationProfile } from '@clerk/remix'
-
-export default function OrganizationProfilePage() {
-    return (
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'center',
-          alignItems: 'center',
-        //   height: '100vh',
-        }}
-      >
-        <OrganizationProfile />
-      </div>
-    );
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { PauseCircle, PlayCircle, ShieldCheck, UserMinus, UserPlus } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { useToast } from "~/hooks/use-toast";
+import { connectContract, loadContract } from "~/lib/web3";
+import EmergencyAccessReview from "~/components/custom/EmergencyAccessReview";
+import PatientErasure from "~/components/custom/PatientErasure";
+import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import ConsentRegistryABI from "./artifacts/ConsentRegistry.json";
+import { initializeApp } from "firebase/app";
+import { getDatabase } from "firebase/database";
+import { Link, useLoaderData } from "@remix-run/react";
+import { firebaseConfig } from "firebaseConfig";
+import { json, LoaderFunction, redirect } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import type { Contract } from "web3-eth-contract";
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { institutionId, isInstitutionClinician } from "~/lib/institution";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { useWalletProof } from "~/hooks/use-wallet-proof";
+
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId) {
+    return redirect('/sign-in');
+  }
+  if (!orgId) {
+    return redirect('/');
+  }
+  // The emergency access justifications are only decrypted for the admin's linked wallet
+  let wallet: string | null = null;
+  try {
+    wallet = await readVerifiedWallet(args.request, userId);
+  } catch (error) {
+    console.error("Error reading the linked wallet:", error);
   }
-  
\ No newline at end of file
+  return json({ firebaseConfig, orgId, wallet });
+};
+
+export default function AdminPanel() {
+  const { firebaseConfig, orgId, wallet } = useLoaderData<typeof loader>();
+  const [account, setAccount] = useState<string>('');
+  useWalletProof(account, wallet);
+  const [admin, setAdmin] = useState<string>('');
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused, refresh: refreshPaused } = useRegistryPaused(patientRegistry);
+  const [consentRegistry, setConsentRegistry] = useState<Contract | null>(null);
+  const [clinicians, setClinicians] = useState<string[]>([]);
+  const [newClinician, setNewClinician] = useState<string>('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const app = initializeApp(firebaseConfig);
+  const database = getDatabase(app);
+
+  // Rebuilds the organization's allowlist from its grant events, keeping only addresses that are still bound to it
+  const fetchClinicians = useCallback(async (registry: Contract) => {
+    const grants = await registry.getPastEvents('ClinicianGranted', {
+      filter: { institutionId: institutionId(orgId) },
+      fromBlock: 0,
+      toBlock: 'latest'
+    });
+    const candidates = Array.from(new Set(grants.map((e) => e.returnValues.clinician as string)));
+
+    const active: string[] = [];
+    for (const candidate of candidates) {
+      if (await isInstitutionClinician(registry, candidate, orgId)) {
+        active.push(candidate);
+      }
+    }
+    setClinicians(active);
+  }, [orgId]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const connection = await connectContract(PatientRegistryABI);
+        if (!connection) return;
+
+        setAccount(connection.account);
+        setPatientRegistry(connection.contract);
+        const networkId = await connection.web3.eth.net.getId();
+        setConsentRegistry(loadContract(connection.web3, ConsentRegistryABI, networkId));
+        setAdmin(await connection.contract.methods.admin().call());
+        await fetchClinicians(connection.contract);
+      } catch (err) {
+        console.error("Error loading registry:", err);
+        toast({
+          title: "Error",
+          description: "Failed to load the patient registry",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadData();
+  }, [fetchClinicians, toast]);
+
+  const isAdmin = account !== '' && account.toLowerCase() === admin.toLowerCase();
+
+  const grantClinician = async () => {
+    if (!patientRegistry) return;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(newClinician.trim())) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid wallet address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await patientRegistry.methods.grantClinician(newClinician.trim(), institutionId(orgId)).send({ from: account });
+
+      setNewClinician('');
+      await fetchClinicians(patientRegistry);
+      toast({
+        title: "Clinician granted",
+        description: "The address can now anchor patient records for this organization.",
+      });
+    } catch (error) {
+      console.error("Error granting clinician:", error);
+      toast({
+        title: "Error",
+        description: `There was an error granting access: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Stops every record write at once, e.g. while a compromised clinician key is being revoked
+  const togglePause = async () => {
+    if (!patientRegistry) return;
+
+    setSubmitting(true);
+    try {
+      const method = paused ? patientRegistry.methods.unpause() : patientRegistry.methods.pause();
+      await method.send({ from: account });
+
+      await refreshPaused();
+      toast({
+        title: paused ? "Registry resumed" : "Registry paused",
+        description: paused
+          ? "Clinicians can anchor patient records again."
+          : "All record writes are blocked until the registry is resumed.",
+      });
+    } catch (error) {
+      console.error("Error changing registry state:", error);
+      toast({
+        title: "Error",
+        description: `There was an error changing the registry state: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const revokeClinician = async (clinician: string) => {
+    if (!patientRegistry) return;
+
+    setSubmitting(true);
+    try {
+      await patientRegistry.methods.revokeClinician(clinician).send({ from: account });
+
+      await fetchClinicians(patientRegistry);
+      toast({
+        title: "Clinician revoked",
+        description: "The address can no longer anchor patient records.",
+      });
+    } catch (error) {
+      console.error("Error revoking clinician:", error);
+      toast({
+        title: "Error",
+        description: `There was an error revoking access: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Registry Administration</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/admin/reconcile">Reconciliation</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link to="/admin/migrate">Migrate v1 Registry</Link>
+          </Button>
+        </div>
+      </div>
+
+      <RegistryPausedBanner paused={paused} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-xl">
+            <PauseCircle className="h-5 w-5" />
+            <span>Registry State</span>
+          </CardTitle>
+          <CardDescription>
+            Pausing blocks registrations, Merkle anchoring and erasures, reads and the allowlist keep working
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between">
+          <Badge variant={paused ? "destructive" : "default"}>{paused ? "Paused" : "Active"}</Badge>
+          <Button
+            variant={paused ? "default" : "destructive"}
+            onClick={togglePause}
+            disabled={!isAdmin || !patientRegistry || submitting}
+          >
+            {paused ? <PlayCircle className="h-4 w-4 mr-2" /> : <PauseCircle className="h-4 w-4 mr-2" />}
+            {paused ? "Resume Registry" : "Pause Registry"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-xl">
+            <ShieldCheck className="h-5 w-5" />
+            <span>Clinician Allowlist</span>
+          </CardTitle>
+          <CardDescription>
+            Only addresses allowlisted for this organization may anchor its patient records on the blockchain
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Registry Admin:</span>
+              <Badge variant="outline">{admin || 'N/A'}</Badge>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Connected Account:</span>
+              <Badge variant={isAdmin ? "default" : "outline"}>{account || 'N/A'}</Badge>
+            </div>
+          </div>
+
+          {!isAdmin && (
+            <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+              Connect the admin wallet to grant or revoke clinicians.
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <Input
+              placeholder="Clinician wallet address"
+              value={newClinician}
+              onChange={(e) => setNewClinician(e.target.value)}
+              className="max-w-md"
+            />
+            <Button onClick={grantClinician} disabled={!isAdmin || submitting}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Grant
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {clinicians.length === 0 && (
+              <p className="text-sm text-gray-500">No clinicians are allowlisted.</p>
+            )}
+            {clinicians.map((clinician) => (
+              <div key={clinician} className="flex items-center justify-between border rounded px-4 py-2">
+                <span className="text-sm break-all">{clinician}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeClinician(clinician)}
+                  disabled={!isAdmin || submitting}
+                >
+                  <UserMinus className="h-4 w-4 mr-2" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <EmergencyAccessReview
+        consentRegistry={consentRegistry}
+        account={account}
+        verifiedWallet={wallet}
+        isAdmin={isAdmin}
+      />
+
+      <PatientErasure
+        patientRegistry={patientRegistry}
+        database={database}
+        orgId={orgId}
+        account={account}
+        isAdmin={isAdmin}
+      />
+    </div>
+  );
+}
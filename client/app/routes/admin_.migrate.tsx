@@ -0,0 +1,303 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import * as XLSX from "xlsx";
+import Web3 from "web3";
+import { DatabaseBackup, Download } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import type { AbiItem } from "web3-utils";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Badge } from "~/components/ui/badge";
+import { toast } from "~/hooks/use-toast";
+import { connectContract, loadContract } from "~/lib/web3";
+import { institutionPath, isInstitutionClinician } from "~/lib/institution";
+import {
+  readV1Patients,
+  classifyV1Patient,
+  migrateBatch,
+  toReportRows,
+  MIGRATION_BATCH_SIZE,
+  type MigrationEntry,
+  type MigrationOutcome,
+} from "~/lib/migration";
+import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import PatientRegistryV1ABI from "~/lib/artifacts/PatientRegistryV1.json";
+import { initializeApp } from "firebase/app";
+import { getDatabase, ref, set } from "firebase/database";
+import { Link, useLoaderData } from "@remix-run/react";
+import { firebaseConfig } from "firebaseConfig";
+import { redirect, LoaderFunction, json } from "@remix-run/node";
+import { getAuth } from '@clerk/remix/ssr.server';
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { useWalletProof } from "~/hooks/use-wallet-proof";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+
+const OUTCOME_BADGES: { [outcome in MigrationOutcome]: "default" | "secondary" | "destructive" | "outline" } = {
+  pending: "outline",
+  migrated: "default",
+  skipped: "secondary",
+  conflict: "destructive",
+  failed: "destructive",
+};
+
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId) {
+    return redirect('/sign-in');
+  }
+  if (!orgId) {
+    return redirect('/');
+  }
+
+  // Existing records are compared field by field, which needs the linked wallet's consent to read them
+  return json({ firebaseConfig, orgId, wallet: await readVerifiedWallet(args.request, userId) });
+};
+
+export default function MigrateV1Registry() {
+  const { firebaseConfig, orgId, wallet } = useLoaderData<typeof loader>();
+  const [web3, setWeb3] = useState<Web3 | null>(null);
+  const [account, setAccount] = useState<string>('');
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [legacyAddress, setLegacyAddress] = useState<string>('');
+  const [entries, setEntries] = useState<MigrationEntry[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+  const [claiming, setClaiming] = useState(false);
+  useWalletProof(account, wallet);
+
+  const app = initializeApp(firebaseConfig);
+  const database = getDatabase(app);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const connection = await connectContract(PatientRegistryABI);
+      if (connection) {
+        setWeb3(connection.web3);
+        setAccount(connection.account);
+        setPatientRegistry(connection.contract);
+
+        // Prefill the v1 deployment recorded in its truffle artifact, if there is one on this network
+        const networkId = await connection.web3.eth.net.getId();
+        const legacy = loadContract(connection.web3, PatientRegistryV1ABI, networkId);
+        if (legacy) {
+          setLegacyAddress(legacy.options.address);
+        }
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const pendingEntries = entries.filter((entry) => entry.outcome === "pending" || entry.outcome === "failed");
+  const countOf = (outcome: MigrationOutcome) => entries.filter((entry) => entry.outcome === outcome).length;
+
+  const scanLegacyRegistry = async () => {
+    if (!web3 || !patientRegistry) return;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(legacyAddress.trim())) {
+      toast({
+        title: "Error",
+        description: "Please enter the address of the v1 registry deployment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setScanning(true);
+    setEntries([]);
+    try {
+      const legacyRegistry = new web3.eth.Contract(PatientRegistryV1ABI.abi as AbiItem[], legacyAddress.trim());
+      const patients = await readV1Patients(legacyRegistry);
+
+      const classified: MigrationEntry[] = [];
+      for (const patient of patients) {
+        classified.push(await classifyV1Patient(patientRegistry, orgId, patient));
+      }
+      setEntries(classified);
+    } catch (error) {
+      console.error("Error reading v1 registry:", error);
+      toast({
+        title: "Error",
+        description: "The address could not be read as a v1 patient registry",
+        variant: "destructive",
+      });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const runMigration = async () => {
+    if (!patientRegistry) return;
+
+    setMigrating(true);
+    try {
+      const allowed = await isInstitutionClinician(patientRegistry, account, orgId);
+      if (!allowed) {
+        toast({
+          title: "Not authorised",
+          description: "Your wallet is not on the clinician allowlist of this organization. Ask an admin to grant access.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const pending = [...pendingEntries];
+      for (let start = 0; start < pending.length; start += MIGRATION_BATCH_SIZE) {
+        const batch = pending.slice(start, start + MIGRATION_BATCH_SIZE);
+        try {
+          await migrateBatch(patientRegistry, database, orgId, batch, legacyAddress.trim(), account);
+        } catch (error) {
+          console.error("Error migrating batch:", error);
+          batch.forEach((entry) => {
+            entry.outcome = "failed";
+            entry.detail = (error as Error).message;
+          });
+        }
+        setEntries((current) => [...current]);
+      }
+
+      // The report is kept next to the data so later audits do not depend on someone's download
+      const reportId = Math.floor(Date.now() / 1000);
+      await set(ref(database, institutionPath(orgId, `migrationReports/${reportId}`)), {
+        legacyRegistry: legacyAddress.trim(),
+        migratedBy: account,
+        entries: toReportRows(entries),
+      });
+
+      const migrated = pending.filter((entry) => entry.outcome === "migrated").length;
+      toast({
+        title: "Migration finished",
+        description: `${migrated} of ${pending.length} patients were migrated. Report #${reportId} was saved.`,
+        variant: migrated === pending.length ? "default" : "destructive",
+      });
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  // Records from before organizations sit in a global node, the server moves them into this one and encrypts them
+  const claimLegacyRecords = async () => {
+    setClaiming(true);
+    try {
+      const response = await fetch("/api/legacy-patients", { method: "POST" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error);
+      }
+      toast({
+        title: "Legacy records claimed",
+        description: `${result.moved.length} records were moved into this organization, ${result.skipped.length} were left in place.`,
+      });
+      result.skipped.forEach((skipped: { address: string; reason: string }) => console.warn(`Legacy record ${skipped.address} skipped: ${skipped.reason}`));
+    } catch (error) {
+      console.error("Error claiming legacy records:", error);
+      toast({
+        title: "Error",
+        description: `There was an error claiming the legacy records: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const downloadReport = () => {
+    const sheet = XLSX.utils.json_to_sheet(toReportRows(entries));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Reconciliation");
+    XLSX.writeFile(workbook, `v1-migration-${legacyAddress.trim()}.csv`, { bookType: "csv" });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 bg-white shadow rounded-lg space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Migrate v1 Registry</h1>
+        <Button variant="outline" asChild>
+          <Link to="/admin">Administration</Link>
+        </Button>
+      </div>
+
+      <RegistryPausedBanner paused={paused} />
+
+      <div className="flex items-center justify-between gap-4 border rounded px-4 py-3">
+        <p className="text-sm text-gray-500">
+          Records saved before the registry was scoped to organizations are still readable by every user. Claiming moves
+          them into this organization, except addresses another institution has registered.
+        </p>
+        <Button variant="outline" onClick={claimLegacyRecords} disabled={claiming}>
+          {claiming ? "Claiming..." : "Claim Legacy Records"}
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Reads every patient stored in plain text by a v1 registry deployment, writes the details to the database and
+        anchors their hashes in the current registry. Addresses that already have data are reported as conflicts and
+        left untouched.
+      </p>
+
+      <div className="flex items-center gap-4">
+        <DatabaseBackup className="h-5 w-5" />
+        <Input
+          placeholder="v1 registry address"
+          value={legacyAddress}
+          onChange={(e) => setLegacyAddress(e.target.value)}
+          className="max-w-md"
+        />
+        <Button onClick={scanLegacyRegistry} disabled={scanning || migrating || !patientRegistry}>
+          {scanning ? "Reading..." : "Read v1 Registry"}
+        </Button>
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="flex gap-2">
+              <Badge variant="secondary">{entries.length} addresses</Badge>
+              <Badge variant="default">{countOf("migrated")} migrated</Badge>
+              <Badge variant="secondary">{countOf("skipped")} skipped</Badge>
+              <Badge variant="destructive">{countOf("conflict")} conflicting</Badge>
+              {countOf("failed") > 0 && <Badge variant="destructive">{countOf("failed")} failed</Badge>}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={downloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Report
+              </Button>
+              <Button onClick={runMigration} disabled={migrating || pendingEntries.length === 0}>
+                {migrating ? "Migrating..." : `Migrate ${pendingEntries.length} Patients`}
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2">Address</th>
+                  <th className="p-2">Name</th>
+                  <th className="p-2">Outcome</th>
+                  <th className="p-2">Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.patient.address} className="border-b align-top">
+                    <td className="p-2 break-all">{entry.patient.address}</td>
+                    <td className="p-2">{entry.patient.firstName} {entry.patient.lastName}</td>
+                    <td className="p-2">
+                      <Badge variant={OUTCOME_BADGES[entry.outcome]}>{entry.outcome}</Badge>
+                    </td>
+                    <td className="p-2">{entry.detail}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
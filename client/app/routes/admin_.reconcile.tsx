@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { RefreshCw } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { toast } from "~/hooks/use-toast";
+import { connectContract } from "~/lib/web3";
+import { reconcile, type ReconciledPatient, type ReconciliationReport } from "~/lib/reconciliation";
+import { readPatients } from "~/lib/encryption.server";
+import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import { Link, useLoaderData, useRevalidator } from "@remix-run/react";
+import { redirect, LoaderFunction, json } from "@remix-run/node";
+import { getAuth } from '@clerk/remix/ssr.server';
+
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId) {
+    return redirect('/sign-in');
+  }
+  if (!orgId) {
+    return redirect('/');
+  }
+
+  // Hash mismatches can only be found on the plaintext, so the records are decrypted here
+  const storedPatients = await readPatients<ReconciledPatient>(orgId);
+  return json({ orgId, storedPatients });
+};
+
+export default function Reconciliation() {
+  const { orgId, storedPatients } = useLoaderData<typeof loader>();
+  const revalidator = useRevalidator();
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const connection = await connectContract(PatientRegistryABI);
+      if (connection) {
+        setPatientRegistry(connection.contract);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const runReconciliation = useCallback(async () => {
+    if (!patientRegistry) return;
+
+    setLoading(true);
+    try {
+      setReport(await reconcile(patientRegistry, orgId, storedPatients));
+    } catch (error) {
+      console.error("Error reconciling registry:", error);
+      toast({
+        title: "Error",
+        description: "Failed to compare the registry with the database",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [patientRegistry, orgId, storedPatients]);
+
+  // Runs once the registry is connected, and again after refreshing reloads the records through the loader
+  useEffect(() => {
+    runReconciliation();
+  }, [runReconciliation]);
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Chain vs Database Reconciliation</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/admin">Administration</Link>
+          </Button>
+          <Button onClick={() => revalidator.revalidate()} disabled={loading || revalidator.state === "loading" || !patientRegistry}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {loading || revalidator.state === "loading" ? "Comparing..." : "Refresh"}
+          </Button>
+        </div>
+      </div>
+
+      {report && (
+        <div className="flex gap-2">
+          <Badge variant="secondary">{report.chainCount} anchored on-chain</Badge>
+          <Badge variant="secondary">{report.databaseCount} in the database</Badge>
+        </div>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Never Anchored ({report.unanchored.length})</CardTitle>
+            <CardDescription>Database records without a transaction on the registry</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.unanchored.length === 0 && (
+              <p className="text-sm text-gray-500">Every database record has been anchored.</p>
+            )}
+            {report.unanchored.map(({ address, patient }) => (
+              <div key={address} className="flex items-center justify-between border rounded px-4 py-2 text-sm">
+                <span className="break-all">{address}</span>
+                <div className="flex items-center space-x-2">
+                  <span>{patient.firstName} {patient.lastName}</span>
+                  {patient.merklePending && <Badge variant="outline">Queued for Merkle batch</Badge>}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Missing From Database ({report.orphaned.length})</CardTitle>
+            <CardDescription>Addresses anchored on-chain with no database record</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.orphaned.length === 0 && (
+              <p className="text-sm text-gray-500">Every anchored address has a database record.</p>
+            )}
+            {report.orphaned.map((address) => (
+              <div key={address} className="border rounded px-4 py-2 text-sm break-all">{address}</div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Hash Mismatches ({report.mismatched.length})</CardTitle>
+            <CardDescription>Records whose database data no longer matches the anchored hash</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.mismatched.length === 0 && (
+              <p className="text-sm text-gray-500">No mismatches were found.</p>
+            )}
+            {report.mismatched.map(({ address, patient, result }) => (
+              <div key={address} className="border rounded px-4 py-2 space-y-1 text-sm break-all">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{address}</span>
+                  <span>{patient.firstName} {patient.lastName}</span>
+                </div>
+                <div>
+                  <span className="font-medium">{result.mode === "merkle" ? `Merkle Root (batch ${result.batchId}): ` : 'Stored Hash: '}</span>
+                  <span>{result.storedHash}</span>
+                </div>
+                <div>
+                  <span className="font-medium">Computed Hash: </span>
+                  <span>{result.currentHash}</span>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { json, type LoaderFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import { ref, get } from "firebase/database";
+import { database } from "firebaseConfig";
+import { institutionPath } from "~/lib/institution";
+import { CONFIRMATION_DEPTH, trackConfirmations } from "~/lib/confirmations.server";
+
+// Resource route: the anchoring status of every record of the organization, polled while transactions confirm.
+// Only the unencrypted status fields are read, nothing here needs the patient data
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to read anchoring statuses" }, { status: 401 });
+  }
+
+  trackConfirmations(orgId);
+
+  try {
+    const snapshot = await get(ref(database, institutionPath(orgId, "patients")));
+    const statuses = Object.fromEntries(
+      Object.entries(snapshot.exists() ? snapshot.val() : {}).map(([address, record]) => {
+        const { anchoringStatus, transactionHash, anchorReceipt, anchoringError, merklePending, merkleProof } = record as { [field: string]: unknown };
+        return [address, { anchoringStatus, transactionHash, anchorReceipt, anchoringError, merklePending, merkleProof: merkleProof ? true : undefined }];
+      })
+    );
+    return json({ statuses, confirmationDepth: CONFIRMATION_DEPTH });
+  } catch (error) {
+    console.error("Error reading anchoring statuses:", error);
+    return json({ error: "The anchoring statuses could not be read" }, { status: 502 });
+  }
+};
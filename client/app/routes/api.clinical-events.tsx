@@ -0,0 +1,132 @@
+import { json, type ActionFunction, type LoaderFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import { ref, get, set } from "firebase/database";
+import { database } from "firebaseConfig";
+import * as z from "zod";
+import { institutionPath } from "~/lib/institution";
+import { readDataKey } from "~/lib/encryption.server";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { canRead } from "~/lib/access.server";
+import { readOnlyContract } from "~/lib/chain.server";
+import {
+  ClinicalEventType,
+  hashClinicalEvent,
+  openClinicalEvent,
+  sealClinicalEvent,
+  type StoredClinicalEvent,
+} from "~/lib/clinical-events";
+import ClinicalEventRegistryABI from "~/routes/artifacts/ClinicalEventRegistry.json";
+
+const isAddress = (value: unknown): value is string => typeof value === "string" && /^0x[a-fA-F0-9]{40}$/.test(value);
+
+// The hashed fields are checked against the anchored event, the rest is taken from the chain
+const clinicalEventSchema = z.object({
+  patientAddress: z.string().refine(isAddress),
+  event: z.object({
+    eventId: z.number().int().nonnegative(),
+    eventType: z.nativeEnum(ClinicalEventType),
+    occurredAt: z.number().int(),
+    details: z.record(z.string()).default({}),
+    notes: z.string(),
+    transactionHash: z.string(),
+  }),
+});
+
+// Resource route: the decrypted clinical events of a patient, for a linked wallet that may read the patient's record,
+// the same check /api/patients makes
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to read clinical events" }, { status: 401 });
+  }
+
+  const url = new URL(args.request.url);
+  const patientAddress = url.searchParams.get("patientAddress");
+  const emergencyAccessId = url.searchParams.get("emergencyAccessId") ?? undefined;
+  if (!isAddress(patientAddress)) {
+    return json({ error: "Invalid patient address" }, { status: 400 });
+  }
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet) {
+      return json({ error: "Connect and link your wallet to read clinical events" }, { status: 403 });
+    }
+    if (!(await canRead(patientAddress, wallet, orgId, emergencyAccessId))) {
+      return json({ error: "Your wallet may not read this patient's clinical events" }, { status: 403 });
+    }
+
+    const dataKey = await readDataKey(orgId, patientAddress);
+    if (!dataKey) {
+      return json({ error: "This patient is not registered with your active organization" }, { status: 404 });
+    }
+
+    // Firebase turns the numeric keys into an array, which may contain holes
+    const snapshot = await get(ref(database, institutionPath(orgId, `clinicalEvents/${patientAddress}`)));
+    const stored = Object.values((snapshot.val() || {}) as { [eventId: string]: StoredClinicalEvent }).filter(Boolean);
+    return json({ events: stored.map((event) => openClinicalEvent(event, dataKey)) });
+  } catch (error) {
+    console.error("Error reading clinical events:", error);
+    return json({ error: "The clinical events could not be read" }, { status: 502 });
+  }
+};
+
+// POST stores an event the clinician has just anchored, encrypted under the data key of the patient's record
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId, has } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to record clinical events" }, { status: 401 });
+  }
+  if (!has({ permission: "org:doctor:domain" })) {
+    return json({ error: "Only clinicians may record clinical events" }, { status: 403 });
+  }
+
+  let body: z.infer<typeof clinicalEventSchema>;
+  try {
+    body = clinicalEventSchema.parse(await args.request.json());
+  } catch {
+    return json({ error: "Invalid clinical event" }, { status: 400 });
+  }
+  const { patientAddress, event } = body;
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet) {
+      return json({ error: "Connect and link your wallet to record clinical events" }, { status: 403 });
+    }
+
+    const dataKey = await readDataKey(orgId, patientAddress);
+    if (!dataKey) {
+      return json({ error: "This patient is not registered with your active organization" }, { status: 404 });
+    }
+
+    // Only what was anchored by the linked wallet is stored, so Firebase never holds an event its hash does not cover
+    const registry = await readOnlyContract(ClinicalEventRegistryABI);
+    const anchored = await registry.methods.getEvent(patientAddress, event.eventId).call();
+    if (anchored.recordedBy.toLowerCase() !== wallet.toLowerCase()) {
+      return json({ error: "This clinical event was anchored by another wallet" }, { status: 403 });
+    }
+    if (hashClinicalEvent(patientAddress, event, Number(anchored.algorithm)) !== anchored.dataHash) {
+      return json({ error: "The clinical event does not match its anchored hash" }, { status: 422 });
+    }
+
+    const stored = sealClinicalEvent({
+      eventType: Number(anchored.eventType),
+      occurredAt: Number(anchored.occurredAt),
+      details: event.details,
+      notes: event.notes,
+      eventId: event.eventId,
+      dataHash: anchored.dataHash,
+      algorithm: Number(anchored.algorithm),
+      schemaVersion: Number(anchored.schemaVersion),
+      recordedBy: anchored.recordedBy,
+      timestamp: Number(anchored.timestamp),
+      transactionHash: event.transactionHash,
+    }, dataKey);
+    await set(ref(database, institutionPath(orgId, `clinicalEvents/${patientAddress}/${event.eventId}`)), stored);
+    return json({ eventId: event.eventId });
+  } catch (error) {
+    console.error("Error storing clinical event:", error);
+    return json({ error: "The clinical event could not be stored" }, { status: 502 });
+  }
+};
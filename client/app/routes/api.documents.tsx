@@ -0,0 +1,134 @@
+import { json, type ActionFunction, type LoaderFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import { ref, get } from "firebase/database";
+import { database } from "firebaseConfig";
+import { getBlobStore } from "~/lib/blob-store.server";
+import { institutionPath } from "~/lib/institution";
+import { documentKey, sha256Bytes, DOCUMENT_CONTENT_TYPES, DOCUMENT_MAX_BYTES } from "~/lib/documents";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { canRead } from "~/lib/access.server";
+import { readOnlyContract } from "~/lib/chain.server";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+
+const isAddress = (value: unknown): value is string => typeof value === "string" && /^0x[a-fA-F0-9]{40}$/.test(value);
+const isHash = (value: unknown): value is string => typeof value === "string" && /^0x[a-f0-9]{64}$/.test(value);
+
+// Resource route: serves a stored attachment of the active organization by patient and content hash,
+// to a linked wallet that may read the patient's record, the same check /api/patients makes
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to download documents" }, { status: 401 });
+  }
+
+  const url = new URL(args.request.url);
+  const patientAddress = url.searchParams.get("patientAddress");
+  const contentHash = url.searchParams.get("contentHash");
+  const emergencyAccessId = url.searchParams.get("emergencyAccessId") ?? undefined;
+  if (!isAddress(patientAddress) || !isHash(contentHash)) {
+    return json({ error: "Invalid document request" }, { status: 400 });
+  }
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet) {
+      return json({ error: "Connect and link your wallet to download documents" }, { status: 403 });
+    }
+    if (!(await canRead(patientAddress, wallet, orgId, emergencyAccessId))) {
+      return json({ error: "Your wallet may not read this patient's documents" }, { status: 403 });
+    }
+  } catch (error) {
+    console.error("Error checking document access:", error);
+    return json({ error: "Access to the document could not be checked" }, { status: 502 });
+  }
+
+  let bytes: ArrayBuffer | null;
+  try {
+    bytes = await getBlobStore().get(documentKey(orgId, patientAddress, contentHash));
+  } catch (error) {
+    console.error("Error reading document:", error);
+    return json({ error: "The document could not be read from storage" }, { status: 502 });
+  }
+  if (!bytes) {
+    return json({ error: "Document not found" }, { status: 404 });
+  }
+
+  return new Response(bytes, {
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Cache-Control": "private, no-store",
+    },
+  });
+};
+
+// POST uploads a file whose hash the clinician is about to anchor, DELETE purges it after an erasure
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId, has } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to manage documents" }, { status: 401 });
+  }
+
+  // Erasures are run by the registry admin, who need not be a clinician, the tombstone is the guard here
+  if (args.request.method === "DELETE") {
+    const url = new URL(args.request.url);
+    const patientAddress = url.searchParams.get("patientAddress");
+    const contentHash = url.searchParams.get("contentHash");
+    if (!isAddress(patientAddress) || !isHash(contentHash)) {
+      return json({ error: "Invalid document request" }, { status: 400 });
+    }
+
+    // Anchored files are never deleted while the patient's record is live. The erased flag in Firebase can be
+    // set from the browser, the tombstone on-chain cannot
+    try {
+      const registry = await readOnlyContract(PatientRegistryABI);
+      const erasure = await registry.methods.getErasure(patientAddress).call();
+      if (!erasure.erased) {
+        return json({ error: "Documents can only be deleted once the patient record has been erased" }, { status: 409 });
+      }
+    } catch (error) {
+      console.error("Error reading the erasure:", error);
+      return json({ error: "The erasure could not be checked" }, { status: 502 });
+    }
+
+    await getBlobStore().remove(documentKey(orgId, patientAddress, contentHash));
+    return json({ deleted: true });
+  }
+
+  if (!has({ permission: "org:doctor:domain" })) {
+    return json({ error: "Only clinicians may attach documents" }, { status: 403 });
+  }
+
+  const formData = await args.request.formData();
+  const patientAddress = formData.get("patientAddress");
+  const contentHash = formData.get("contentHash");
+  const file = formData.get("file");
+
+  if (!isAddress(patientAddress) || !isHash(contentHash) || !(file instanceof File)) {
+    return json({ error: "Invalid document upload" }, { status: 400 });
+  }
+  if (file.size === 0 || file.size > DOCUMENT_MAX_BYTES) {
+    return json({ error: `Documents must be between 1 byte and ${DOCUMENT_MAX_BYTES / (1024 * 1024)} MB` }, { status: 413 });
+  }
+  if (!DOCUMENT_CONTENT_TYPES.includes(file.type)) {
+    return json({ error: "Only PDF, PNG, JPEG and plain text documents can be attached" }, { status: 415 });
+  }
+
+  const patient = await get(ref(database, institutionPath(orgId, `patients/${patientAddress}`)));
+  if (!patient.exists() || patient.val().erased) {
+    return json({ error: "This patient is not registered with your active organization" }, { status: 404 });
+  }
+
+  // The browser's hash is what gets anchored, so the stored bytes have to match it exactly
+  const bytes = await file.arrayBuffer();
+  if (await sha256Bytes(bytes) !== contentHash) {
+    return json({ error: "The uploaded bytes do not match the document hash" }, { status: 422 });
+  }
+
+  try {
+    await getBlobStore().put(documentKey(orgId, patientAddress, contentHash), new Uint8Array(bytes), file.type);
+  } catch (error) {
+    console.error("Error storing document:", error);
+    return json({ error: "The document could not be stored" }, { status: 502 });
+  }
+  return json({ contentHash, size: file.size });
+};
@@ -0,0 +1,46 @@
+import { json, type ActionFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import * as z from "zod";
+import { readPatients } from "~/lib/encryption.server";
+import { DEFAULT_DUPLICATE_THRESHOLDS, findDuplicates, type MatchFields } from "~/lib/duplicates";
+
+// Scores between 0 and 1, raising them trades missed duplicates for fewer prompts
+const THRESHOLDS = {
+  possible: Number(process.env.DUPLICATE_POSSIBLE_THRESHOLD || DEFAULT_DUPLICATE_THRESHOLDS.possible),
+  likely: Number(process.env.DUPLICATE_LIKELY_THRESHOLD || DEFAULT_DUPLICATE_THRESHOLDS.likely),
+};
+
+const duplicateCheckSchema = z.object({
+  address: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  age: z.string(),
+  dateOfBirth: z.string(),
+  contactNumber: z.string(),
+  email: z.string(),
+});
+
+// Resource route: the registration form posts the new patient here before anything is written. Every record of the
+// organization is compared, so the answer carries the matching addresses and how likely each one is, nothing else
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to check for duplicates" }, { status: 401 });
+  }
+
+  let candidate: z.infer<typeof duplicateCheckSchema>;
+  try {
+    candidate = duplicateCheckSchema.parse(await args.request.json());
+  } catch {
+    return json({ error: "Invalid duplicate check" }, { status: 400 });
+  }
+
+  try {
+    const records = await readPatients<MatchFields & { erased?: boolean }>(orgId);
+    const matches = findDuplicates(candidate, records, THRESHOLDS);
+    return json({ matches });
+  } catch (error) {
+    console.error("Error checking for duplicates:", error);
+    return json({ error: "The existing records could not be read" }, { status: 502 });
+  }
+};
@@ -0,0 +1,104 @@
+import { json, type ActionFunction, type LoaderFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import { ref, get, set } from "firebase/database";
+import { database } from "firebaseConfig";
+import CryptoJS from "crypto-js";
+import * as z from "zod";
+import { institutionPath } from "~/lib/institution";
+import { readDataKey } from "~/lib/encryption.server";
+import { decryptValue, encryptValue } from "~/lib/encryption";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { readOnlyContract } from "~/lib/chain.server";
+import ConsentRegistryABI from "~/routes/artifacts/ConsentRegistry.json";
+import PatientRegistryABI from "~/routes/artifacts/PatientRegistry.json";
+
+const justificationSchema = z.object({
+  accessId: z.string().regex(/^\d+$/),
+  reason: z.string().trim().min(20),
+  transactionHash: z.string(),
+});
+
+const reasonHash = (reason: string) => "0x" + CryptoJS.SHA256(reason).toString();
+
+// Resource route: the justification of a logged emergency access, decrypted for the registry admin's linked wallet
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to review emergency accesses" }, { status: 401 });
+  }
+
+  const accessId = new URL(args.request.url).searchParams.get("accessId");
+  if (!accessId || !/^\d+$/.test(accessId)) {
+    return json({ error: "Invalid emergency access id" }, { status: 400 });
+  }
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    const registry = await readOnlyContract(PatientRegistryABI);
+    const admin: string = await registry.methods.admin().call();
+    if (!wallet || wallet.toLowerCase() !== admin.toLowerCase()) {
+      return json({ error: "Only the registry admin's linked wallet may read justifications" }, { status: 403 });
+    }
+
+    const snapshot = await get(ref(database, institutionPath(orgId, `emergencyAccess/${accessId}`)));
+    if (!snapshot.exists()) {
+      return json({ error: "No justification is stored for this emergency access" }, { status: 404 });
+    }
+    const stored = snapshot.val();
+    // Accesses to records without a data key keep the hash only
+    const dataKey = stored.reason ? await readDataKey(orgId, stored.patientAddress) : null;
+    return json({ reason: dataKey ? decryptValue(stored.reason, dataKey) : null });
+  } catch (error) {
+    console.error("Error reading emergency access justification:", error);
+    return json({ error: "The justification could not be read" }, { status: 502 });
+  }
+};
+
+// POST stores the justification of an access the clinician has just logged, encrypted under the data key of the
+// patient's record. The on-chain reason hash stays the audit trail
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to record emergency accesses" }, { status: 401 });
+  }
+
+  let body: z.infer<typeof justificationSchema>;
+  try {
+    body = justificationSchema.parse(await args.request.json());
+  } catch {
+    return json({ error: "Invalid emergency access justification" }, { status: 400 });
+  }
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet) {
+      return json({ error: "Connect and link your wallet to record emergency accesses" }, { status: 403 });
+    }
+
+    const consents = await readOnlyContract(ConsentRegistryABI);
+    if (Number(body.accessId) >= Number(await consents.methods.getEmergencyAccessCount().call())) {
+      return json({ error: "Emergency access does not exist" }, { status: 404 });
+    }
+    const access = await consents.methods.getEmergencyAccess(body.accessId).call();
+    if (access.clinician.toLowerCase() !== wallet.toLowerCase()) {
+      return json({ error: "This emergency access was logged by another wallet" }, { status: 403 });
+    }
+    if (reasonHash(body.reason) !== access.reasonHash) {
+      return json({ error: "The justification does not match its logged hash" }, { status: 422 });
+    }
+
+    const dataKey = await readDataKey(orgId, access.patientAddress);
+    await set(ref(database, institutionPath(orgId, `emergencyAccess/${body.accessId}`)), {
+      patientAddress: access.patientAddress,
+      clinician: access.clinician,
+      ...(dataKey ? { reason: encryptValue(body.reason, dataKey) } : {}),
+      reasonHash: access.reasonHash,
+      transactionHash: body.transactionHash,
+      timestamp: Number(access.timestamp),
+    });
+    return json({ accessId: body.accessId });
+  } catch (error) {
+    console.error("Error storing emergency access justification:", error);
+    return json({ error: "The justification could not be stored" }, { status: 502 });
+  }
+};
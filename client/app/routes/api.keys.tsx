@@ -0,0 +1,33 @@
+import { json, type ActionFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import * as z from "zod";
+import { issueRecordKeys } from "~/lib/encryption.server";
+
+// Keys issued per request, above the batch sizes of the import and migration pages
+const MAX_KEYS_PER_REQUEST = 100;
+
+const keyRequestSchema = z.object({
+  firstNames: z.array(z.string()).min(1).max(MAX_KEYS_PER_REQUEST),
+});
+
+// Resource route: hands out fresh data keys, wrapped by the active organization's institution key
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to encrypt records" }, { status: 401 });
+  }
+
+  let keyRequest: z.infer<typeof keyRequestSchema>;
+  try {
+    keyRequest = keyRequestSchema.parse(await args.request.json());
+  } catch {
+    return json({ error: "Invalid key request" }, { status: 400 });
+  }
+
+  try {
+    return json({ keys: issueRecordKeys(orgId, keyRequest.firstNames) });
+  } catch (error) {
+    console.error("Error issuing record keys:", error);
+    return json({ error: "Encryption keys are not available" }, { status: 503 });
+  }
+};
@@ -0,0 +1,22 @@
+import { json, type ActionFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import { claimLegacyPatients } from "~/lib/legacy.server";
+
+// Resource route: moves the records written before organizations existed into the active organization
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId, orgRole } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to claim legacy records" }, { status: 401 });
+  }
+  // Whoever claims first gets the unattributed records, so only organization admins may
+  if (orgRole !== "org:admin") {
+    return json({ error: "Only organization admins can claim legacy records" }, { status: 403 });
+  }
+
+  try {
+    return json(await claimLegacyPatients(orgId));
+  } catch (error) {
+    console.error("Error claiming legacy records:", error);
+    return json({ error: "The legacy records could not be moved" }, { status: 502 });
+  }
+};
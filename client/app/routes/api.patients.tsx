@@ -0,0 +1,58 @@
+import { json, type LoaderFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import { findPatientsByFirstName, readPatient } from "~/lib/encryption.server";
+import { trackConfirmations } from "~/lib/confirmations.server";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { readableRecords } from "~/lib/access.server";
+import { getIndexedHistory, startIndexer } from "~/lib/indexer.server";
+
+// Resource route: decrypted patient search for the active organization, by address or by first name.
+// Records the linked wallet may not read, see canRead, come back as their address only
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to read patient records" }, { status: 401 });
+  }
+
+  // Verification reads the anchoring status from the record, so it has to keep moving while records are looked up
+  trackConfirmations(orgId);
+  // The version history shown next to a record comes from the event index instead of a scan from block 0
+  startIndexer();
+
+  const url = new URL(args.request.url);
+  const address = url.searchParams.get("address")?.trim();
+  const name = url.searchParams.get("name")?.trim();
+  const emergencyAccessId = url.searchParams.get("emergencyAccessId") ?? undefined;
+
+  // The address becomes a Firebase path segment, so it must not be able to reach another node
+  if (address && /[.#$[\]/]/.test(address)) {
+    return json({ error: "Invalid patient address" }, { status: 400 });
+  }
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet) {
+      return json({ error: "Connect and link your wallet to read patient records" }, { status: 403 });
+    }
+
+    let patients: { [address: string]: { erased?: boolean } } | null = null;
+    if (address) {
+      const patient = await readPatient<{ erased?: boolean }>(orgId, address);
+      patients = patient ? { [address]: patient } : {};
+    } else if (name) {
+      patients = await findPatientsByFirstName(orgId, name);
+    }
+    if (patients) {
+      const { readable, restricted } = await readableRecords(patients, wallet, orgId, emergencyAccessId);
+      const registrations = Object.fromEntries(
+        Object.keys(readable).map((readableAddress) => [readableAddress.toLowerCase(), getIndexedHistory(readableAddress)])
+      );
+      return json({ patients: readable, restricted, registrations });
+    }
+  } catch (error) {
+    console.error("Error reading patients:", error);
+    return json({ error: "The patient records could not be read" }, { status: 502 });
+  }
+
+  return json({ error: "Enter an address or a name" }, { status: 400 });
+};
@@ -0,0 +1,61 @@
+import { json, type ActionFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import * as z from "zod";
+import { relayRegistration, RelayerError } from "~/lib/relayer.server";
+import { HashAlgorithm } from "~/lib/hashing";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+
+const relaySchema = z.object({
+  patientAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  dataHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/),
+  algorithm: z.nativeEnum(HashAlgorithm),
+  schemaVersion: z.number().int().positive(),
+  attestation: z.object({
+    clinician: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+    signature: z.string().regex(/^0x[a-fA-F0-9]{130}$/),
+  }),
+});
+
+// Resource route: clinicians post attestations signed with their linked wallet here, the relayer pays for the gas
+export const action: ActionFunction = async (args) => {
+  const { userId, orgId, has } = await getAuth(args);
+  if (!userId || !orgId) {
+    return json({ error: "Sign in with an active organization to relay transactions" }, { status: 401 });
+  }
+  if (!has({ permission: "org:doctor:domain" })) {
+    return json({ error: "Only clinicians may relay transactions" }, { status: 403 });
+  }
+
+  let body: z.infer<typeof relaySchema>;
+  try {
+    body = relaySchema.parse(await args.request.json());
+  } catch {
+    return json({ error: "Invalid relay request" }, { status: 400 });
+  }
+  const { patientAddress, dataHash, algorithm, schemaVersion, attestation } = body;
+
+  try {
+    // The signer has to be the wallet this Clerk user proved they hold, not just any allowlisted clinician
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet || wallet.toLowerCase() !== attestation.clinician.toLowerCase()) {
+      return json({ error: "Sign the attestation with the wallet linked to your account" }, { status: 403 });
+    }
+
+    const result = await relayRegistration({
+      userId,
+      orgId,
+      patientAddress,
+      dataHash,
+      algorithm,
+      schemaVersion,
+      attestation: { clinician: attestation.clinician, signature: attestation.signature }
+    });
+    return json(result);
+  } catch (error) {
+    console.error("Error relaying transaction:", error);
+    if (error instanceof RelayerError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    return json({ error: "The relayer could not submit the transaction" }, { status: 502 });
+  }
+};
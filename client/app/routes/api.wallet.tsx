@@ -0,0 +1,37 @@
+import { json, type ActionFunction } from "@remix-run/node";
+import { getAuth } from "@clerk/remix/ssr.server";
+import * as z from "zod";
+import { linkWallet, WalletProofError } from "~/lib/wallet-session.server";
+
+const walletProofSchema = z.object({
+  wallet: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  issuedAt: z.number(),
+  signature: z.string(),
+});
+
+// Resource route: links the wallet that signed the proof to the signed-in user for the consent checks
+export const action: ActionFunction = async (args) => {
+  const { userId } = await getAuth(args);
+  if (!userId) {
+    return json({ error: "Sign in to link a wallet" }, { status: 401 });
+  }
+
+  let proof: z.infer<typeof walletProofSchema>;
+  try {
+    proof = walletProofSchema.parse(await args.request.json());
+  } catch {
+    return json({ error: "Invalid wallet proof" }, { status: 400 });
+  }
+  const { wallet, issuedAt, signature } = proof;
+
+  try {
+    const cookie = await linkWallet(userId, wallet, issuedAt, signature);
+    return json({ wallet }, { headers: { "Set-Cookie": cookie } });
+  } catch (error) {
+    if (error instanceof WalletProofError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error linking wallet:", error);
+    return json({ error: "The wallet could not be linked" }, { status: 503 });
+  }
+};
@@ -1,5 +1,5 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Web3 from "web3";
 import { Button } from "~/components/ui/button";
 import { Calendar, ChevronDown, Phone, Mail } from "lucide-react";
@@ -21,24 +21,67 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
-import PatientRegistryABI from "./artifacts/PatientRegistry.json";
-import { initializeApp } from "firebase/app";
-import { getDatabase, ref, get } from "firebase/database";
-import { useLoaderData, redirect, useNavigate } from "@remix-run/react"; 
+import { useLoaderData, useRevalidator, redirect, useNavigate, useFetcher } from "@remix-run/react"; 
 import { json, LoaderFunction } from "@remix-run/node";
 import { useUser } from '@clerk/remix'; 
 import { getAuth } from '@clerk/remix/ssr.server';
-import { firebaseConfig } from "firebaseConfig"; 
+import { startIndexer, getIndexerStatus, getInstitutionRegistrations } from "~/lib/indexer.server";
+import { readPatients } from "~/lib/encryption.server";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { readableRecords } from "~/lib/access.server";
+import { useWalletProof } from "~/hooks/use-wallet-proof";
+import { describeDiagnosis } from "~/lib/icd";
+import { anchoringStatusOf, isTracked, ANCHORING_STATUS_LABELS, type AnchoringStatus, type AnchorReceipt } from "~/lib/anchoring";
+import { CONFIRMATION_DEPTH, trackConfirmations } from "~/lib/confirmations.server";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 
 export const loader: LoaderFunction = async (args) => {
-  const { userId } = await getAuth(args);
+  const { userId, orgId } = await getAuth(args);
   if (!userId) {
     return redirect('/sign-in');
   }
+  if (!orgId) {
+    return redirect('/');
+  }
+
+  // Timestamps and transaction hashes come from the event index instead of one RPC call per patient
+  startIndexer();
+  trackConfirmations(orgId);
+  const registrations = getInstitutionRegistrations(orgId);
+  const { checkpoint } = getIndexerStatus();
+
+  // Decrypted here, the browser never sees the ciphertext, the wrapped keys or a record its linked wallet may not read.
+  // A missing session secret or an RPC failure shows as an error instead of failing the whole page
+  let wallet: string | null = null;
+  let records: Awaited<ReturnType<typeof readableRecords<PatientData>>> = { readable: {}, restricted: [] };
+  let loadError: string | null = null;
+  try {
+    wallet = await readVerifiedWallet(args.request, userId);
+    if (wallet) {
+      records = await readableRecords(await readPatients<PatientData>(orgId), wallet, orgId);
+    }
+  } catch (error) {
+    console.error("Error loading patient records:", error);
+    loadError = "The patient records could not be loaded, please try again later";
+  }
 
-  return json({ firebaseConfig });
+  return json({
+    registrations,
+    indexedThrough: checkpoint,
+    storedPatients: records.readable,
+    hiddenCount: records.restricted.length,
+    wallet,
+    confirmationDepth: CONFIRMATION_DEPTH,
+    loadError,
+  });
 };
 
+// "unanchored" covers every status except anchored
+type StatusFilter = "all" | "unanchored" | AnchoringStatus;
+
+// Statuses of transactions that are still confirming are polled this often
+const STATUS_POLL_INTERVAL_MS = 15 * 1000;
+
 interface PatientData {
   firstName: string;
   lastName: string;
@@ -47,32 +90,34 @@ interface PatientData {
   contactNumber: string;
   email: string;
   address: string;
-  cancerType: string;
+  cancerType?: string; // only on records from before ICD-O-3 coding
   diagnosedDate?: string;
   transactionHash?: string;
+  versionCount?: number;
+  anchoringStatus?: AnchoringStatus;
+  anchorReceipt?: AnchorReceipt;
   [key: string]: any;
 }
 
 export default function PatientDashboard() {
-  const { firebaseConfig } = useLoaderData<typeof loader>();
+  const { registrations, indexedThrough, storedPatients, hiddenCount, wallet, confirmationDepth, loadError } = useLoaderData<typeof loader>();
+  const statusFetcher = useFetcher<{ statuses: { [address: string]: Partial<PatientData> } }>();
   const [patients, setPatients] = useState<{ [key: string]: PatientData }>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate(); // Use Remix's useNavigate
-
-  const app = initializeApp(firebaseConfig);
-  const database = getDatabase(app);
+  const revalidator = useRevalidator();
 
   const [account, setAccount] = useState<string>('');
-  const [patientRegistry, setPatientRegistry] = useState<any>(null);
+  useWalletProof(account, wallet);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const { isLoaded, isSignedIn, user } = useUser(); 
 
   useEffect(() => {
     const loadData = async () => {
       try {
         await loadBlockchainData();
-        await fetchAllPatients();
       } catch (err) {
         console.error("Error loading data:", err);
         setError("Error loading data");
@@ -87,46 +132,46 @@ export default function PatientDashboard() {
     };
 
     loadData();
-  }, []);
+  }, [toast]);
 
+  // The server checks consent for the wallet, the browser only needs to know which wallet is connected
   const loadBlockchainData = async () => {
     if (window.ethereum) {
       const web3 = new Web3(window.ethereum);
       await window.ethereum.request({ method: 'eth_requestAccounts' });
       const accounts = await web3.eth.getAccounts();
       setAccount(accounts[0]);
-
-      const networkId = await web3.eth.net.getId();
-      const networkData = PatientRegistryABI.networks[networkId];
-
-      if (networkData) {
-        const registry = new web3.eth.Contract(PatientRegistryABI.abi, networkData.address);
-        setPatientRegistry(registry);
-      } else {
-        window.alert('The smart contract is not deployed to the current network');
-      }
     } else {
       window.alert("Non-Ethereum browser detected. You should consider trying MetaMask!");
     }
   };
 
-  const fetchAllPatients = async () => {
+  const fetchAllPatients = useCallback(() => {
+    // Nothing is decrypted before the wallet is linked, the loader runs again once it is
+    if (!wallet || loadError) return;
+
     try {
-      const dbRef = ref(database, 'patients');
-      const snapshot = await get(dbRef);
-
-      if (snapshot.exists()) {
-        const patientData = snapshot.val();
-        console.log("patient data: ", patientData)
-        
-        if (patientRegistry) {
-          for (const recordId of Object.keys(patientData)) {
-            console.log("recordId: ", recordId)
-            const record = await patientRegistry.methods.getPatientRecord(recordId).call();
-            console.log("Retrieved blockchain data for patient", recordId, ":", record);
-            if (record) {
-              patientData[recordId].diagnosedDate = new Date(record.timestamp * 1000).toLocaleString();
-            }
+      const allPatients: { [key: string]: PatientData } = storedPatients;
+
+      if (Object.keys(allPatients).length > 0 || hiddenCount > 0) {
+
+        // The loader only sent the patients who have granted the linked wallet access to their record
+        const patientData: { [key: string]: PatientData } = {};
+        for (const recordId of Object.keys(allPatients)) {
+          // Erased records are tombstones without any patient data to list
+          if (allPatients[recordId].erased) continue;
+          patientData[recordId] = { ...allPatients[recordId] };
+        }
+
+        for (const recordId of Object.keys(patientData)) {
+          // Records anchored after the indexer's checkpoint show up on the next refresh
+          const versions = registrations[recordId.toLowerCase()];
+          patientData[recordId].anchoringStatus = anchoringStatusOf(patientData[recordId]);
+          if (versions?.length) {
+            const latest = versions[versions.length - 1];
+            patientData[recordId].diagnosedDate = new Date(latest.timestamp * 1000).toLocaleString();
+            patientData[recordId].transactionHash = latest.transactionHash;
+            patientData[recordId].versionCount = versions.length;
           }
         }
 
@@ -153,15 +198,54 @@ export default function PatientDashboard() {
         variant: "destructive",
       });
     }
-  };
+  }, [wallet, loadError, storedPatients, hiddenCount, registrations, toast]);
+
+  // Runs once the wallet is connected, and again when refreshing or linking the wallet reloads the loader
+  useEffect(() => {
+    if (account) {
+      fetchAllPatients();
+    }
+  }, [account, fetchAllPatients]);
+
+  // Only the status fields are reloaded, the list and the consent checks stay as they are
+  const loadStatuses = statusFetcher.load;
+  const tracking = Object.values(patients).some((patient) => isTracked(patient.anchoringStatus ?? "draft"));
+  useEffect(() => {
+    if (!tracking) return;
+    const timer = setInterval(() => loadStatuses("/api/anchoring"), STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [tracking, loadStatuses]);
+
+  useEffect(() => {
+    const statuses = statusFetcher.data?.statuses;
+    if (!statuses) return;
+    setPatients((current) => Object.fromEntries(
+      Object.entries(current).map(([recordId, patient]) => {
+        const latest = statuses[recordId];
+        if (!latest) return [recordId, patient];
+        // The index may be behind, a mined hash from the receipt is newer than the indexed one
+        const anchorReceipt = latest.anchorReceipt as AnchorReceipt | undefined;
+        return [recordId, {
+          ...patient,
+          anchoringStatus: anchoringStatusOf(latest),
+          anchorReceipt,
+          transactionHash: anchorReceipt?.transactionHash ?? patient.transactionHash,
+        }];
+      })
+    ));
+  }, [statusFetcher.data]);
 
-  // Function to handle the "Edit Patient Info" click
-  const handleEditClick = (patient: PatientData, recordId: string) => {
-    // Construct the URL with patient data as query parameters
-    const url = `/form?address=${encodeURIComponent(recordId)}&firstName=${encodeURIComponent(patient.firstName)}&lastName=${encodeURIComponent(patient.lastName)}&age=${encodeURIComponent(patient.age)}&gender=${encodeURIComponent(patient.gender)}&contactNumber=${encodeURIComponent(patient.contactNumber)}&email=${encodeURIComponent(patient.email)}&cancerType=${encodeURIComponent(patient.cancerType)}`;
-    navigate(url); // Now using navigate from Remix
+  // The edit route loads the record on the server, nothing about the patient goes into the URL
+  const handleEditClick = (recordId: string) => {
+    navigate(`/patients/${recordId}/edit`);
   };
 
+  const visiblePatients = Object.entries(patients).filter(([, patient]) => {
+    if (statusFilter === "all") return true;
+    if (statusFilter === "unanchored") return patient.anchoringStatus !== "anchored";
+    return patient.anchoringStatus === statusFilter;
+  });
+
   // Conditionally render based on Clerk authentication status
   if (!isLoaded) {
     return <p>Loading...</p>;
@@ -180,8 +264,8 @@ export default function PatientDashboard() {
 
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Patient Dashboard</h1>
-        <Button onClick={fetchAllPatients} disabled={loading}>
-          {loading ? "Refreshing..." : "Refresh Data"}
+        <Button onClick={() => revalidator.revalidate()} disabled={loading || revalidator.state === "loading"}>
+          {loading || revalidator.state === "loading" ? "Refreshing..." : "Refresh Data"}
         </Button>
       </div>
 
@@ -191,13 +275,45 @@ export default function PatientDashboard() {
         </div>
       )}
 
-      {error && (
+      {(loadError || error) && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-          {error}
+          {loadError || error}
+        </div>
+      )}
+
+      {indexedThrough === null && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          The blockchain index is still starting, diagnosed dates and transaction hashes will appear once it has caught up.
+        </div>
+      )}
+
+      {!loading && hiddenCount > 0 && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          {hiddenCount} patient record(s) are hidden because those patients have not granted your wallet access.
+        </div>
+      )}
+
+      {!loading && Object.keys(patients).length > 0 && (
+        <div className="flex items-center gap-4">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="max-w-xs" aria-label="Anchoring status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All records</SelectItem>
+              <SelectItem value="unanchored">Unanchored</SelectItem>
+              {(["draft", "pending", "confirming", "failed"] as const).map((status) => (
+                <SelectItem key={status} value={status}>{ANCHORING_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">
+            {visiblePatients.length} of {Object.keys(patients).length} record(s)
+          </span>
         </div>
       )}
 
-      {!loading && Object.entries(patients).map(([recordId, patient]) => (
+      {!loading && visiblePatients.map(([recordId, patient]) => (
         <Card key={recordId}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <div className="flex items-center space-x-4">
@@ -224,11 +340,13 @@ export default function PatientDashboard() {
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Actions</DropdownMenuLabel>
                 <DropdownMenuItem 
-                  onClick={() => handleEditClick(patient,recordId)} 
+                  onClick={() => handleEditClick(recordId)} 
                 >
                   Edit Patient Info 
                 </DropdownMenuItem>
-                <DropdownMenuItem>View Medical Records</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate(`/patients/${recordId}/records`)}>
+                  View Medical Records
+                </DropdownMenuItem>
                 <DropdownMenuItem>Schedule Appointment</DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem>Print Summary</DropdownMenuItem>
@@ -255,12 +373,37 @@ export default function PatientDashboard() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Cancer Type:</span>
-                  <Badge variant="secondary">{patient.cancerType}</Badge>
+                  <Badge variant="secondary">{describeDiagnosis(patient)}</Badge>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Anchoring:</span>
+                  <Badge variant={patient.anchoringStatus === "failed" ? "destructive" : patient.anchoringStatus === "anchored" ? "secondary" : "outline"}>
+                    {ANCHORING_STATUS_LABELS[patient.anchoringStatus ?? "draft"]}
+                    {patient.anchoringStatus === "confirming" && ` ${patient.anchorReceipt?.confirmations ?? 0}/${confirmationDepth}`}
+                  </Badge>
                 </div>
+                {patient.anchorReceipt?.blockNumber && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Block:</span>
+                    <span className="text-sm">
+                      #{patient.anchorReceipt.blockNumber} • {patient.anchorReceipt.gasUsed} gas • from {patient.anchorReceipt.from}
+                    </span>
+                  </div>
+                )}
+                {patient.anchorReceipt?.reorgedFromBlock && (
+                  <div className="text-sm text-yellow-700">
+                    A reorg removed the transaction from block #{patient.anchorReceipt.reorgedFromBlock}
+                    {patient.anchorReceipt.blockNumber ? ", it has been mined again." : ", it is waiting to be mined again."}
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Transaction Hash:</span>
                   <Badge variant="outline">{patient.transactionHash || 'N/A'}</Badge>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Versions:</span>
+                  <Badge variant="outline">{patient.versionCount || 'N/A'}</Badge>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Patient ID:</span>
                   <Badge variant="outline">{recordId}</Badge>
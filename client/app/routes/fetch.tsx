@@ -2,11 +2,12 @@
 import { useState, useEffect } from "react";
 import Web3 from "web3";
 import { Button } from "~/components/ui/button";
-import { Calendar, ChevronDown, Phone, Mail } from "lucide-react";
+import { Calendar, ChevronDown, Phone, Mail, History, Siren } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar";
 import { Badge } from "~/components/ui/badge";
 import { Input } from "~/components/ui/input";
+import { Textarea } from "~/components/ui/textarea";
 import { useToast } from "~/hooks/use-toast";
 import {
   DropdownMenu,
@@ -17,39 +18,71 @@ import {
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
 import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import { checkIntegrity } from "~/lib/integrity";
+import { ERASURE_REASON_LABELS, type ErasureReason } from "~/lib/erasure";
+import { HashAlgorithm } from "~/lib/hashing";
+import { searchPatients } from "~/lib/patient";
+import type { IndexedRegistration } from "~/lib/indexer.server";
+import ConsentRegistryABI from "./artifacts/ConsentRegistry.json";
+import ClinicalEventRegistryABI from "./artifacts/ClinicalEventRegistry.json";
+import ClinicalTimeline from "~/components/custom/ClinicalTimeline";
+import DocumentRegistryABI from "./artifacts/DocumentRegistry.json";
+import PatientDocuments from "~/components/custom/PatientDocuments";
+import { loadContract } from "~/lib/web3";
+import { describeDiagnosis } from "~/lib/icd";
+import type { Contract } from "web3-eth-contract";
 import { initializeApp } from "firebase/app";
-import { getDatabase, ref, get, query, orderByChild, equalTo } from "firebase/database";
-import { redirect, useLoaderData } from "@remix-run/react";
+import { getDatabase } from "firebase/database";
+import { redirect, useLoaderData, useNavigate } from "@remix-run/react";
 import { firebaseConfig } from "firebaseConfig";
 import CryptoJS from 'crypto-js';
 import { json, LoaderFunction } from "@remix-run/node";
 import { getAuth } from "@clerk/remix/ssr.server";
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { useWalletProof } from "~/hooks/use-wallet-proof";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
 
 export const loader: LoaderFunction = async (args) => {
-  const { userId } = await getAuth(args);
+  const { userId, orgId } = await getAuth(args);
   if (!userId) {
     return redirect('/sign-in');
   }
+  if (!orgId) {
+    return redirect('/');
+  }
 
-  return json({ firebaseConfig });
+  return json({ firebaseConfig, orgId, wallet: await readVerifiedWallet(args.request, userId) });
 };
 
 interface PatientData {
   firstName: string;
   lastName: string;
-  age: number;
+  age: string;
   gender: string;
   contactNumber: string;
   email: string;
   address: string;
-  cancerType: string;
+  cancerType?: string; // only on records from before ICD-O-3 coding
+  timestamp: number;
   diagnosedDate?: string;
   transactionHash?: string;
   [key: string]: any;
 }
 
+interface RecordVersion {
+  version: number;
+  dataHash: string;
+  algorithm: HashAlgorithm;
+  schemaVersion: number;
+  timestamp: number;
+  attestedBy?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
 export default function FetchPatientData() {
-  const { firebaseConfig } = useLoaderData<any>();
+  const { firebaseConfig, orgId, wallet } = useLoaderData<typeof loader>();
   const [address, setAddress] = useState<string>("");
   const [name, setName] = useState<string>("");
   const [patient, setPatient] = useState<PatientData | null>(null);
@@ -57,13 +90,25 @@ export default function FetchPatientData() {
   const [error, setError] = useState<string | null>(null);
   const [verificationResult, setVerificationResult] = useState<string>("");
   const [recordId, setRecordId] = useState<string>("");
+  const [history, setHistory] = useState<RecordVersion[]>([]);
+  const [lockedRecord, setLockedRecord] = useState<string | null>(null);
+  const [emergencyReason, setEmergencyReason] = useState<string>("");
+  const [requestingAccess, setRequestingAccess] = useState(false);
+  const [emergencyAccessId, setEmergencyAccessId] = useState<string | undefined>(undefined);
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   const app = initializeApp(firebaseConfig);
   const database = getDatabase(app);
 
   const [account, setAccount] = useState<string>('');
-  const [patientRegistry, setPatientRegistry] = useState<any>(null);
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [consentRegistry, setConsentRegistry] = useState<Contract | null>(null);
+  const [eventRegistry, setEventRegistry] = useState<Contract | null>(null);
+  const [documentRegistry, setDocumentRegistry] = useState<Contract | null>(null);
+  const [showRecords, setShowRecords] = useState(false);
+  useWalletProof(account, wallet);
 
   useEffect(() => {
     loadBlockchainData();
@@ -73,7 +118,7 @@ export default function FetchPatientData() {
     if (window.ethereum) {
       const web3 = new Web3(window.ethereum);
       try {
-        const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+        const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' }) as string[];
         setAccount(accounts[0]);
 
         const networkId = await web3.eth.net.getId();
@@ -85,6 +130,10 @@ export default function FetchPatientData() {
         } else {
           window.alert('The smart contract is not deployed to the current network');
         }
+
+        setConsentRegistry(loadContract(web3, ConsentRegistryABI, networkId));
+        setEventRegistry(loadContract(web3, ClinicalEventRegistryABI, networkId));
+        setDocumentRegistry(loadContract(web3, DocumentRegistryABI, networkId));
       } catch (error) {
         console.error("User denied account access", error);
       }
@@ -105,34 +154,44 @@ export default function FetchPatientData() {
   
     setLoading(true);
     setError(null);
+    setPatient(null);
+    setVerificationResult("");
+    setHistory([]);
+    setLockedRecord(null);
+    setShowRecords(false);
     try {
-      let dbRef;
-      if (address.trim()) {
-        dbRef = query(ref(database, 'patients'), orderByChild('address'), equalTo(address));
-      } else if (name.trim()) {
-        dbRef = query(ref(database, 'patients'), orderByChild('firstName'), equalTo(name));
+      // The names are encrypted in Firebase, the server looks them up and decrypts the matches this wallet may read
+      const { patients: patientData, restricted, registrations } = await searchPatients<PatientData>(
+        address.trim() ? { address: address.trim() } : { name: name.trim() }
+      );
+
+      if (Object.keys(patientData).length === 0 && restricted.length > 0) {
+        // Kept aside so a break-the-glass access can open it without searching again
+        setLockedRecord(restricted[0]);
+        setError("You are not a clinician of this organization and have no active consent grant from this patient");
+        toast({
+          title: "Access denied",
+          description: "The patient has not granted your wallet access to their record",
+          variant: "destructive",
+        });
+        return;
       }
-  
-      const snapshot = await get(dbRef);
-  
-      if (snapshot.exists()) {
-        const patientData = snapshot.val();
-        console.log("Retrieved data:", patientData);
-  
+
+      if (Object.keys(patientData).length > 0) {
         // Extract the first key from the data object
         const recordId = Object.keys(patientData)[0]; 
-        console.log("Record ID:", recordId); // This will log "0x5A8528c23b6A7aBe4AEafF130E798740603BFf7C"
-  
-        if (patientRegistry) {
-          const record = await patientRegistry.methods.getPatientRecord(recordId).call();
-          console.log("Retrieved blockchain data:", record);
-          if (record) {
-            patientData[recordId].diagnosedDate = new Date(record.timestamp * 1000).toLocaleString();
-          }
+
+        // An erased record is only a tombstone with no PHI left to protect
+        if (patientData[recordId].erased) {
+          await showPatient(recordId, patientData[recordId], registrations);
+          toast({
+            title: "Record erased",
+            description: "This patient's data has been erased",
+          });
+          return;
         }
-  
-        setPatient(patientData[recordId]);
-        setRecordId(recordId);
+
+        await showPatient(recordId, patientData[recordId], registrations);
         toast({
           title: "Success",
           description: "Patient data retrieved successfully",
@@ -159,53 +218,167 @@ export default function FetchPatientData() {
     }
   };
   
-  const generateHash = (data: any) => {
-    const relevantData = {
-      firstName: data.firstName,
-      lastName: data.lastName,
-      contactNumber: data.contactNumber,
-      gender: data.gender,
-      cancerType: data.cancerType,
-      age: data.age,
-      email: data.email,
-      timestamp: data.timestamp
-    };
-  
-    const sortedData = Object.keys(relevantData).sort().reduce((result: any, key: string) => {
-      result[key] = relevantData[key];
-      return result;
-    }, {});
-  
-    return CryptoJS.SHA256(JSON.stringify(sortedData)).toString();
+  // emergencyAccessId is set when the record was opened through break-the-glass, the document routes check it again
+  const showPatient = async (
+    recordId: string,
+    patientData: PatientData,
+    registrations: { [address: string]: IndexedRegistration[] },
+    emergencyAccessId?: string
+  ) => {
+    if (patientRegistry) {
+      const record = await patientRegistry.methods.getPatientRecord(recordId).call();
+      if (record) {
+        patientData.diagnosedDate = new Date(record.timestamp * 1000).toLocaleString();
+      }
+      await fetchVersionHistory(patientRegistry, recordId, registrations[recordId.toLowerCase()] || []);
+    }
+
+    setPatient(patientData);
+    setRecordId(recordId);
+    setEmergencyAccessId(emergencyAccessId);
   };
-  
+
+  // Break-the-glass: logs the justification hash on-chain before the record is shown
+  const requestEmergencyAccess = async () => {
+    if (!lockedRecord) return;
+
+    if (emergencyReason.trim().length < 20) {
+      toast({
+        title: "Error",
+        description: "Please describe the emergency in at least 20 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!consentRegistry) {
+      toast({
+        title: "Error",
+        description: "The consent registry is not deployed to the current network",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRequestingAccess(true);
+    try {
+      const reason = emergencyReason.trim();
+      const reasonHash = '0x' + CryptoJS.SHA256(reason).toString();
+
+      const receipt = await consentRegistry.methods.recordEmergencyAccess(
+        lockedRecord,
+        reasonHash
+      ).send({ from: account });
+
+      // The justification is kept off-chain for the admin review queue, encrypted by the server under the record's data key
+      const accessId = receipt.events.EmergencyAccess.returnValues.accessId;
+      const response = await fetch("/api/emergency-access", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessId: String(accessId), reason, transactionHash: receipt.transactionHash }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || "The emergency access was logged but its justification could not be stored");
+      }
+
+      setError(null);
+      setEmergencyReason("");
+      // The server opens the record once it has found the access logged on-chain for this wallet
+      const { patients, registrations } = await searchPatients<PatientData>({ address: lockedRecord, emergencyAccessId: String(accessId) });
+      if (!patients[lockedRecord]) {
+        throw new Error("The emergency access was logged but the record could not be opened");
+      }
+      await showPatient(lockedRecord, patients[lockedRecord], registrations, String(accessId));
+      setLockedRecord(null);
+      toast({
+        title: "Emergency access granted",
+        description: "This access has been logged and will be reviewed by an admin.",
+      });
+    } catch (error) {
+      console.error("Error requesting emergency access:", error);
+      toast({
+        title: "Error",
+        description: `There was an error requesting emergency access: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setRequestingAccess(false);
+    }
+  };
+
+  // Combines the on-chain history with the indexed PatientRegistered logs so each version carries its tx hash.
+  // A version the indexer has not reached yet is shown without one
+  const fetchVersionHistory = async (registry: Contract, patientAddress: string, indexed: IndexedRegistration[]) => {
+    const versions = await registry.methods.getPatientHistory(patientAddress).call();
+
+    const timeline: RecordVersion[] = versions.map((record: { dataHash: string; algorithm: string; schemaVersion: string; timestamp: string; attestedBy: string }, index: number) => {
+      const version = index + 1;
+      const event = indexed.find((registration) => registration.version === version);
+      return {
+        version,
+        dataHash: record.dataHash,
+        algorithm: Number(record.algorithm),
+        schemaVersion: Number(record.schemaVersion),
+        timestamp: Number(record.timestamp),
+        attestedBy: Number(record.attestedBy) !== 0 ? record.attestedBy : undefined,
+        transactionHash: event?.transactionHash,
+        blockNumber: event?.blockNumber
+      };
+    });
+
+    // Newest version first
+    setHistory(timeline.reverse());
+  };
+
   const verifyDataIntegrity = async () => {
     if (!patientRegistry || !patient) return;
-  
+
     try {
-      const record = await patientRegistry.methods.getPatientRecord(recordId).call();
-      console.log("Retrieved patient record from blockchain:", record);
-  
-      const storedHash = record.dataHash;
-      console.log("Stored hash from blockchain:", storedHash);
-  
-      const currentHash = generateHash(patient);
-      console.log("Computed hash from Firebase data:", currentHash);
-  
+      const result = await checkIntegrity(patientRegistry, recordId, patient, orgId);
+
+      if (result.status === "erased") {
+        const erasedOn = new Date((result.erasedAt ?? 0) * 1000).toLocaleString();
+        const reason = result.erasureReason !== undefined ? ERASURE_REASON_LABELS[result.erasureReason] : 'Unknown';
+        setVerificationResult(`Record erased on ${erasedOn}: The patient data has been purged and can no longer be verified.\nReason: ${reason}\nLast Hash in Blockchain: ${result.storedHash}\n`);
+        return;
+      }
+
       let resultMessage = '';
-  
-      if (storedHash === currentHash) {
+
+      if (result.status === "pending") {
+        resultMessage += result.confirmations
+          ? `Data integrity not yet verifiable: The anchoring transaction has ${result.confirmations} confirmation(s) and is not final yet.`
+          : result.mode === "merkle"
+            ? 'Data integrity not yet verifiable: The record is waiting for its Merkle batch to be anchored.'
+            : 'Data integrity not yet verifiable: The anchoring transaction has not gone through yet.';
+      } else if (result.status === "verified") {
         resultMessage += 'Data integrity verified: No alterations detected.';
+      } else if (result.mode === "merkle" && result.batchId === undefined) {
+        resultMessage += 'Data integrity compromised: The record claims a Merkle batch but no anchored proof was found.';
+
+        toast({
+          title: "Data Integrity Compromised",
+          description: "No anchor was found for this record.",
+          variant: "destructive",
+        });
       } else {
         resultMessage += 'Data integrity compromised: Alterations detected.';
-  
+
         toast({
           title: "Data Integrity Compromised",
           description: "Alterations detected in the data.",
           variant: "destructive",
         });
       }
-      resultMessage += `\nStored Hash in Blockchain: ${storedHash}\nComputed Hash from Database: ${currentHash}\n`;
+      if (result.mode === "merkle") {
+        resultMessage += `\nAnchored in Merkle batch: ${result.batchId ?? 'pending'}\nMerkle Root in Blockchain: ${result.storedHash || 'N/A'}\nComputed Leaf Hash from Database: ${result.currentHash}\n`;
+      } else {
+        resultMessage += `\nStored Hash in Blockchain: ${result.storedHash}\nComputed Hash from Database: ${result.currentHash}\n`;
+      }
+      if (result.attestedBy) {
+        resultMessage += `Attested by ${result.attestedBy}\n`;
+      }
       setVerificationResult(resultMessage);
 
     } catch (error) {
@@ -220,6 +393,8 @@ export default function FetchPatientData() {
         <h1 className="text-2xl font-bold">Fetch Patient's Data</h1>
       </div>
 
+      <RegistryPausedBanner paused={paused} />
+
       <div className="flex gap-4 mb-6">
         <Input
           placeholder="Enter Address"
@@ -247,7 +422,41 @@ export default function FetchPatientData() {
         </div>
       )}
 
-      {patient && (
+      {lockedRecord && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-xl">
+              <Siren className="h-5 w-5" />
+              <span>Emergency Access</span>
+            </CardTitle>
+            <CardDescription>
+              Opening this record without consent is logged on the blockchain with your address and a hash of
+              your justification, and must be signed off by an admin afterwards.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              placeholder="Describe the clinical emergency that requires access to this record"
+              value={emergencyReason}
+              onChange={(e) => setEmergencyReason(e.target.value)}
+            />
+            <Button variant="destructive" onClick={requestEmergencyAccess} disabled={requestingAccess}>
+              {requestingAccess ? "Logging access..." : "Break the Glass"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {patient?.erased && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded space-y-1">
+          <div className="font-medium">This record was erased on {new Date(patient.erasedAt * 1000).toLocaleString()}.</div>
+          <div className="text-sm break-all">Patient ID: {recordId}</div>
+          <div className="text-sm">Reason: {ERASURE_REASON_LABELS[patient.reason as ErasureReason]}</div>
+          <div className="text-sm break-all">Erasure Transaction: {patient.transactionHash || 'N/A'}</div>
+        </div>
+      )}
+
+      {patient && !patient.erased && (
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <div className="flex items-center space-x-4">
@@ -273,8 +482,8 @@ export default function FetchPatientData() {
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                <DropdownMenuItem>Edit Patient Info</DropdownMenuItem>
-                <DropdownMenuItem>View Medical Records</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate(`/patients/${recordId}/edit`)}>Edit Patient Info</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowRecords(true)}>View Medical Records</DropdownMenuItem>
                 <DropdownMenuItem>Schedule Appointment</DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem>Print Summary</DropdownMenuItem>
@@ -301,7 +510,7 @@ export default function FetchPatientData() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Cancer Type:</span>
-                  <Badge variant="secondary">{patient.cancerType}</Badge>
+                  <Badge variant="secondary">{describeDiagnosis(patient)}</Badge>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Transaction Hash:</span>
@@ -328,6 +537,83 @@ export default function FetchPatientData() {
           {verificationResult}
         </div>
       )}
+
+      {patient && !patient.erased && (
+        <PatientDocuments
+          documentRegistry={documentRegistry}
+          database={database}
+          orgId={orgId}
+          patientAddress={recordId}
+          account={account}
+          emergencyAccessId={emergencyAccessId}
+        />
+      )}
+
+      {patient && !patient.erased && showRecords && (
+        <ClinicalTimeline
+          eventRegistry={eventRegistry}
+          patientAddress={recordId}
+          account={account}
+          emergencyAccessId={emergencyAccessId}
+        />
+      )}
+
+      {patient && history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-xl">
+              <History className="h-5 w-5" />
+              <span>Anchored Versions</span>
+            </CardTitle>
+            <CardDescription>
+              Every registration of this patient recorded on the blockchain
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="relative border-l border-gray-200 space-y-6 ml-2">
+              {history.map((entry) => (
+                <li key={entry.version} className="ml-4">
+                  <div className="absolute w-3 h-3 bg-gray-400 rounded-full -left-1.5 mt-1.5" />
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={entry.version === history[0].version ? "default" : "secondary"}>
+                      Version {entry.version}
+                    </Badge>
+                    <span className="text-sm text-gray-500">
+                      {new Date(entry.timestamp * 1000).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="mt-2 space-y-1 text-sm break-all">
+                    <div>
+                      <span className="font-medium">Data Hash: </span>
+                      <span>{entry.dataHash}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Hashing: </span>
+                      <span>{HashAlgorithm[entry.algorithm]}, schema v{entry.schemaVersion}</span>
+                    </div>
+                    {entry.attestedBy && (
+                      <div>
+                        <span className="font-medium">Attested by: </span>
+                        <span>{entry.attestedBy}</span>
+                      </div>
+                    )}
+                    <div>
+                      <span className="font-medium">Transaction Hash: </span>
+                      <span>{entry.transactionHash || 'N/A'}</span>
+                    </div>
+                    {entry.blockNumber !== undefined && (
+                      <div>
+                        <span className="font-medium">Block: </span>
+                        <span>{entry.blockNumber}</span>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -1,92 +1,103 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import Web3 from "web3";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "~/components/ui/button";
-import { Input } from "~/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "~/components/ui/form";
+import { Form } from "~/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { toast } from "~/hooks/use-toast";
 import PatientRegistryABI from "./artifacts/PatientRegistry.json";
-import CryptoJS from 'crypto-js';
 import { initializeApp } from "firebase/app";
 import { getDatabase, ref, set } from "firebase/database";
-import { useLoaderData, useSearchParams } from "@remix-run/react";
+import MerkleBatchPanel from "~/components/custom/MerkleBatchPanel";
+import AnchorRetryPanel from "~/components/custom/AnchorRetryPanel";
+import { Link, useLoaderData, useNavigate } from "@remix-run/react";
 import { firebaseConfig } from "firebaseConfig"; 
 import { redirect, LoaderFunction, json} from "@remix-run/node";
+import type { Contract } from "web3-eth-contract";
 import { getAuth } from '@clerk/remix/ssr.server';
-import * as z from "zod"
+import { toPatientRecord, type PatientFormValues } from "~/lib/patient";
+import { hashRecord, CURRENT_HASH_ALGORITHM, CURRENT_SCHEMA_VERSION } from "~/lib/hashing";
+import { institutionId, institutionPath, isInstitutionClinician } from "~/lib/institution";
+import { anchorViaRelayer } from "~/lib/relay";
+import { anchorWithStatus, walletSender, type AnchorRequest, type AnchorSender } from "~/lib/anchoring";
+import { sealRecords } from "~/lib/encryption";
+import { generatePatientId, type PatientKeypair } from "~/lib/patient-id";
+import PatientIdCard from "~/components/custom/PatientIdCard";
+import DuplicateReviewPanel from "~/components/custom/DuplicateReviewPanel";
+import {
+  checkForDuplicates,
+  saveDuplicateReview,
+  type DuplicateDecision,
+  type DuplicateMatch,
+  type DuplicateReview,
+} from "~/lib/duplicates";
+import { DemographicsStep, DiagnosisStep, IntakeProgress, ReviewStep, StagingStep } from "~/components/custom/PatientIntakeSteps";
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { INTAKE_STEPS, REVIEW_STEP, emptyPatientValues, useIntakeWizard } from "~/hooks/use-intake-wizard";
 
-const formSchema = z.object({
-    address: z.string().min(10, {
-      message: "First name must be at least 10 digits.",
-    }),
-    firstName: z.string().min(2, {
-      message: "First name must be at least 2 characters.",
-    }),
-    lastName: z.string().min(2, {
-      message: "Last name must be at least 2 characters.",
-    }),
-    gender: z.string({
-      required_error: "Please select a gender.",
-    }),
-    contactNumber: z.string().min(10, {
-      message: "Contact number must be at least 10 digits.",
-    }),
-    cancerType: z.string({
-      required_error: "Please select a cancer type.",
-    }),
-    age: z.string().min(1, {
-      message: "Age is required.",
-    }),
-    email: z.string().email({
-      message: "SUPER VALID email address.",
-    }),
-})
+// "relayer" submits through /api/relay, the wallet signs an attestation and the server-held key sends and pays for it
+type AnchoringMode = "direct" | "merkle" | "relayer";
 
 // export { firebaseLoader as loader };
 export const loader: LoaderFunction = async (args) => {
-  const { userId } = await getAuth(args);
+  const { userId, orgId } = await getAuth(args);
   if (!userId) {
     return redirect('/sign-in');
   }
+  if (!orgId) {
+    return redirect('/');
+  }
 
-  return json({ firebaseConfig });
+  return json({ firebaseConfig, orgId, userId });
 };
 
 export default function NewPatientForm() {
-  const { firebaseConfig } = useLoaderData<any>();
+  const { firebaseConfig, orgId, userId } = useLoaderData<typeof loader>();
   const [account, setAccount] = useState<string>('');
-  const [patientRegistry, setPatientRegistry] = useState<any>(null);
-  const [searchParams] = useSearchParams(); // Use useSearchParams to access query parameters
-
-  // Extract patient data from query parameters
-  const initialValues = {
-    address: searchParams.get("address") || "",
-    firstName: searchParams.get("firstName") || "",
-    lastName: searchParams.get("lastName") || "",
-    age: searchParams.get("age") || "",
-    gender: searchParams.get("gender") || "",
-    contactNumber: searchParams.get("contactNumber") || "",
-    email: searchParams.get("email") || "",
-    cancerType: searchParams.get("cancerType") || "",
-  };
-  console.log("initial value:",initialValues)
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [anchoringMode, setAnchoringMode] = useState<AnchoringMode>("direct");
+  const [queueVersion, setQueueVersion] = useState(0);
+  const [issuedCard, setIssuedCard] = useState<{ patientId: string; patientName: string; patientKey?: string } | null>(null);
+  // Held in memory until the card is printed, it is the only copy of the patient's key
+  const [generatedId, setGeneratedId] = useState<PatientKeypair | null>(null);
+  // Set while the clinician decides what to do about resembling records, nothing is written until then
+  const [duplicateCheck, setDuplicateCheck] = useState<{ values: PatientFormValues; matches: DuplicateMatch[] } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const navigate = useNavigate();
+  // Editing goes through /patients/$id/edit, this form only registers new patients
+  const { form, step, goToStep, nextStep } = useIntakeWizard(emptyPatientValues());
 
   const app = initializeApp(firebaseConfig);
   const database = getDatabase(app);
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
-    defaultValues: initialValues, // Set initial values from query parameters
-    
-  });
+  const assignNewPatientId = useCallback(() => {
+    const keypair = generatePatientId();
+    setGeneratedId(keypair);
+    form.setValue("address", keypair.address, { shouldValidate: true });
+  }, [form]);
 
   useEffect(() => {
     loadBlockchainData();
-  }, []);
+    assignNewPatientId();
+  }, [assignNewPatientId]);
+
+  // A generated id comes with its key, a patient who registered with their own wallet already holds theirs
+  const issueCard = (values: PatientFormValues) => {
+    setIssuedCard({
+      patientId: values.address,
+      patientName: `${values.firstName} ${values.lastName}`,
+      patientKey: generatedId?.address === values.address ? generatedId.privateKey : undefined,
+    });
+  };
+
+  const dismissCard = () => {
+    setIssuedCard(null);
+    assignNewPatientId();
+    goToStep(0);
+  };
 
   const loadBlockchainData = async () => {
     if (window.ethereum) {
@@ -104,207 +115,295 @@ export default function NewPatientForm() {
       } else {
         window.alert('The smart contract is not deployed to the current network');
       }
-    } else {
-      window.alert("Non-Ethereum browser detected. You should consider trying MetaMask!");
     }
   };
 
-  const generateHash = (data: any) => {
-    const sortedData = Object.keys(data).sort().reduce((result: any, key: string) => {
-      result[key] = data[key];
-      return result;
-    }, {});
-    return CryptoJS.SHA256(JSON.stringify(sortedData)).toString();
+  // Existing records are compared before the patient is registered, the clinician resolves any matches first
+  const onSubmit = async (values: PatientFormValues) => {
+    setSubmitting(true);
+    try {
+      let matches: DuplicateMatch[];
+      try {
+        matches = await checkForDuplicates(values);
+      } catch (error) {
+        console.error("Error checking for duplicates:", error);
+        toast({
+          title: "Error",
+          description: `There was an error checking for duplicate patients: ${(error as Error).message}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (matches.length > 0) {
+        setDuplicateCheck({ values, matches });
+        return;
+      }
+      // registerPatient reports its own failures
+      await registerPatient(values);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    if (!patientRegistry) {
-      console.error("Contract is not initialized");
-      return;
+  // Kept under the address that was about to be registered, together with the candidates it resembled
+  const saveDecision = async (decision: DuplicateDecision, details: { linkedTo?: string; justification?: string }) => {
+    if (!duplicateCheck) return;
+    const { values, matches } = duplicateCheck;
+    const review: DuplicateReview = {
+      decision,
+      candidates: matches.map(({ address, likely }) => ({ address, likely })),
+      ...details,
+      decidedBy: userId,
+      decidedAt: Math.floor(Date.now() / 1000),
+    };
+    await saveDuplicateReview(database, orgId, values.address, review);
+  };
+
+  const linkDuplicate = async (address: string) => {
+    setSubmitting(true);
+    try {
+      await saveDecision("linked", { linkedTo: address });
+      setDuplicateCheck(null);
+      navigate(`/patients/${address}/edit`);
+    } catch (error) {
+      console.error("Error saving duplicate review:", error);
+      toast({
+        title: "Error",
+        description: `There was an error saving the duplicate review: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
     }
+  };
+
+  const cancelDuplicate = async () => {
+    setSubmitting(true);
+    try {
+      await saveDecision("cancelled", {});
+      setDuplicateCheck(null);
+      toast({ title: "Registration cancelled", description: "Nothing was registered for this patient." });
+    } catch (error) {
+      console.error("Error saving duplicate review:", error);
+      toast({
+        title: "Error",
+        description: `There was an error saving the duplicate review: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
-    const patientData = {
-      firstName: values.firstName,
-      lastName: values.lastName,
-      contactNumber: values.contactNumber,
-      gender: values.gender,
-      cancerType: values.cancerType,
-      age: values.age,  // Include new field
-      email: values.email,  // Include new field
-      timestamp: Math.floor(Date.now() / 1000)
+  // Saved once the record it justifies exists, a failed registration leaves the clinician to decide again
+  const proceedDespiteDuplicates = async (justification: string) => {
+    if (!duplicateCheck) return;
+
+    setSubmitting(true);
+    try {
+      if (!await registerPatient(duplicateCheck.values)) return;
+      setDuplicateCheck(null);
+      await saveDecision("proceeded", { justification });
+    } catch (error) {
+      console.error("Error saving duplicate review:", error);
+      toast({
+        title: "Error",
+        description: `There was an error saving the duplicate review: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Resolves to whether the patient was written to Firebase, anchored or not
+  const registerPatient = async (values: PatientFormValues): Promise<boolean> => {
+    const patientData = toPatientRecord(values);
+
+    // The hash covers the plaintext, only the sealed copy is written to Firebase
+    const dataHash = hashRecord(patientData);
+    const request: AnchorRequest = {
+      patientAddress: values.address,
+      dataHash,
+      algorithm: CURRENT_HASH_ALGORITHM,
+      schemaVersion: CURRENT_SCHEMA_VERSION
     };
+    const patientRef = ref(database, institutionPath(orgId, `patients/${values.address}`));
 
-    const dataHash = generateHash(patientData);
+    // The relayer pays for the transaction, but the record is still signed by the clinician's wallet
+    if (!patientRegistry) {
+      console.error("Contract is not initialized");
+      return false;
+    }
 
+    // Once the draft is written the patient exists, a failed transaction only leaves it unanchored
+    let saved = false;
     try {
-      // Store data in Firebase using patient address as the key
-      const dbRef = ref(database, `patients/${values.address}`);
-      await set(dbRef, patientData);
+      // Only allowlisted clinicians may anchor records, check before touching Firebase. Through the relayer the
+      // wallet signs the attestation instead of the transaction and has to be on the allowlist all the same
+      const allowed = await isInstitutionClinician(patientRegistry, account, orgId);
+      if (!allowed) {
+        toast({
+          title: "Not authorised",
+          description: "Your wallet is not on the clinician allowlist of this organization. Ask an admin to grant access.",
+          variant: "destructive",
+        });
+        return false;
+      }
 
-      // Register patient on blockchain with hash
-      const receipt = await patientRegistry.methods.registerPatient(
-        values.address,  // patient address as identifier
-        dataHash
-      ).send({ from: account });
+      const [storedData] = await sealRecords([patientData]);
 
-      console.log("Transaction successful with hash:", receipt.transactionHash);
+      if (anchoringMode === "merkle") {
+        // Only queue the hash, the record is anchored when the pending batch is committed
+        await set(patientRef, { ...storedData, anchoringStatus: "pending", merklePending: true });
+        await set(ref(database, institutionPath(orgId, `merkleQueue/${values.address}`)), {
+          dataHash,
+          algorithm: CURRENT_HASH_ALGORITHM,
+          schemaVersion: CURRENT_SCHEMA_VERSION
+        });
+        setQueueVersion((version) => version + 1);
+        issueCard(values);
 
-      // Store the transaction hash in Firebase
-      await set(ref(database, `patients/${values.address}/transactionHash`), receipt.transactionHash);
+        toast({
+          title: "New patient data queued",
+          description: "The record will be anchored with the next Merkle batch.",
+        });
+        return true;
+      }
+
+      // First phase: saved as a draft, so verification reports it as unanchored rather than tampered
+      await set(patientRef, { ...storedData, anchoringStatus: "draft" });
+      saved = true;
+
+      // Second phase: the status follows the transaction, a failure puts the hash in the retry queue
+      const sender: AnchorSender = anchoringMode === "relayer"
+        ? async (onSubmitted) => {
+          onSubmitted(await anchorViaRelayer(values.address, dataHash, patientRegistry, account, orgId));
+          return null;
+        }
+        : walletSender(patientRegistry.methods.registerPatient(
+          values.address,  // patient address as identifier
+          institutionId(orgId),
+          dataHash,
+          CURRENT_HASH_ALGORITHM,
+          CURRENT_SCHEMA_VERSION
+        ), account);
+      await anchorWithStatus(database, orgId, [request], sender);
+
+      issueCard(values);
+      setQueueVersion((version) => version + 1);
 
       toast({
         title: "New patient data submitted",
-        description: "The form was submitted successfully.",
+        description: anchoringMode === "relayer"
+          ? "The relayer submitted the transaction, the record stays pending until it is mined."
+          : "The form was submitted successfully.",
       });
+      return true;
     } catch (error) {
       console.error("Error submitting form:", error);
+      if (saved) {
+        issueCard(values);
+        setQueueVersion((version) => version + 1);
+      }
       toast({
         title: "Error",
-        description: `There was an error submitting the form: ${error.message}`,
+        description: saved
+          ? `The patient was saved but could not be anchored, it has been queued for retry: ${(error as Error).message}`
+          : `There was an error submitting the form: ${(error as Error).message}`,
+        variant: "destructive",
       });
+      return saved;
     }
   };
 
   return (
-    <div className="max-w-2xl mx-auto p-4 bg-white shadow rounded-lg">
-      <h1 className="text-2xl font-bold mb-6">New Cancer Patient Registration</h1>
+    <div className="max-w-2xl mx-auto p-4 bg-white shadow rounded-lg print:shadow-none">
+      {issuedCard && (
+        <div className="mb-6">
+          <PatientIdCard {...issuedCard} onDismiss={dismissCard} />
+        </div>
+      )}
+      <div className={`flex justify-between items-center mb-6 ${issuedCard ? "print:hidden" : ""}`}>
+        <h1 className="text-2xl font-bold">New Cancer Patient Registration</h1>
+        <Button variant="outline" asChild>
+          <Link to="/form/import">Import CSV/XLSX</Link>
+        </Button>
+      </div>
+      <RegistryPausedBanner paused={paused} className="mb-6 print:hidden" />
       <Form {...form} >
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-          <FormField
-            control={form.control}
-            name="address"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Address</FormLabel>
-                <FormControl>
-                  <Input placeholder="Address" {...field} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              control={form.control}
-              name="firstName"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>First name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="First name" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
+        <form
+          onSubmit={step === REVIEW_STEP ? form.handleSubmit(onSubmit) : (event) => { event.preventDefault(); nextStep(); }}
+          className={`space-y-8 ${issuedCard ? "print:hidden" : ""}`}
+        >
+          <IntakeProgress sections={INTAKE_STEPS} step={step} />
+          {step === 0 && <DemographicsStep form={form} onGenerateId={assignNewPatientId} />}
+          {step === 1 && <DiagnosisStep form={form} />}
+          {step === 2 && <StagingStep form={form} />}
+          {step === REVIEW_STEP && (
+            <ReviewStep
+              form={form}
+              sections={INTAKE_STEPS.slice(0, REVIEW_STEP)}
+              // Changed values are checked for duplicates again on the next submit
+              onEdit={(section) => { setDuplicateCheck(null); goToStep(section); }}
             />
-            <FormField
-              control={form.control}
-              name="lastName"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Last name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Last name" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
+          )}
+          {duplicateCheck ? (
+            <DuplicateReviewPanel
+              matches={duplicateCheck.matches}
+              busy={submitting}
+              onLink={linkDuplicate}
+              onProceed={proceedDespiteDuplicates}
+              onCancel={cancelDuplicate}
             />
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 min-w-full">
-            <FormField 
-              control={form.control}
-              name="contactNumber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Contact number</FormLabel>
-                  <FormControl>
-                    <Input placeholder="011-12345678" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+          ) : (
+            <div className="flex items-center gap-4">
+              {step > 0 && (
+                <Button type="button" variant="outline" onClick={() => goToStep(step - 1)}>
+                  Back
+                </Button>
               )}
-            />
-            <FormField 
-              control={form.control}
-              name="gender"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Gender</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select gender" />
-                      </SelectTrigger>
-                    </FormControl>
+              {step < REVIEW_STEP ? (
+                <Button type="submit">Next</Button>
+              ) : (
+                <>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? "Submitting..." : "Submit"}
+                  </Button>
+                  <Select value={anchoringMode} onValueChange={(value) => setAnchoringMode(value as AnchoringMode)}>
+                    <SelectTrigger className="max-w-xs" aria-label="Anchoring mode">
+                      <SelectValue />
+                    </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="male">Male</SelectItem>
-                      <SelectItem value="female">Female</SelectItem>
+                      <SelectItem value="direct">Anchor immediately</SelectItem>
+                      <SelectItem value="merkle">Queue for Merkle batch</SelectItem>
+                      <SelectItem value="relayer">Anchor via server relayer</SelectItem>
                     </SelectContent>
                   </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              control={form.control}
-              name="age"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Age</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Age" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+                </>
               )}
-            />
-            <FormField
-              control={form.control}
-              name="email"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Email</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Email" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </div>
-          <FormField
-            control={form.control}
-            name="cancerType"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Cancer Type</FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={field.value}>
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select cancer type" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="breast">Breast Cancer</SelectItem>
-                    <SelectItem value="lung">Lung Cancer</SelectItem>
-                    <SelectItem value="prostate">Prostate Cancer</SelectItem>
-                    <SelectItem value="colorectal">Colorectal Cancer</SelectItem>
-                    <SelectItem value="melanoma">Melanoma</SelectItem>
-                    <SelectItem value="leukemia">Leukemia</SelectItem>
-                    <SelectItem value="lymphoma">Lymphoma</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Submit</Button>
+            </div>
+          )}
         </form>
       </Form>
+      <div className="mt-8 print:hidden">
+        <MerkleBatchPanel
+          patientRegistry={patientRegistry}
+          database={database}
+          orgId={orgId}
+          account={account}
+          refreshKey={queueVersion}
+        />
+      </div>
+      <div className="mt-8 print:hidden">
+        <AnchorRetryPanel
+          patientRegistry={patientRegistry}
+          database={database}
+          orgId={orgId}
+          account={account}
+          refreshKey={queueVersion}
+        />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,388 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import * as XLSX from "xlsx";
+import { FileUp } from "lucide-react";
+import type { Contract } from "web3-eth-contract";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Badge } from "~/components/ui/badge";
+import { toast } from "~/hooks/use-toast";
+import { connectContract } from "~/lib/web3";
+import { formSchema, patientFieldsSchema, toPatientRecord, type PatientFormValues } from "~/lib/patient";
+import { withLegacyCoding } from "~/lib/icd";
+import { anchorWithStatus, walletSender } from "~/lib/anchoring";
+import { hashRecord, CURRENT_HASH_ALGORITHM, CURRENT_SCHEMA_VERSION } from "~/lib/hashing";
+import { institutionId, institutionPath, isInstitutionClinician } from "~/lib/institution";
+import { sealRecords } from "~/lib/encryption";
+import { generatePatientId } from "~/lib/patient-id";
+import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import { initializeApp } from "firebase/app";
+import { getDatabase, get, ref, set } from "firebase/database";
+import { Link, useLoaderData } from "@remix-run/react";
+import { firebaseConfig } from "firebaseConfig";
+import { redirect, LoaderFunction, json } from "@remix-run/node";
+import { getAuth } from '@clerk/remix/ssr.server';
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+
+// Rows anchored per registerPatients transaction, kept well below the block gas limit
+const BATCH_SIZE = 50;
+
+const COLUMNS = Object.keys(patientFieldsSchema.shape) as (keyof PatientFormValues)[];
+
+interface ImportRow {
+  row: number;
+  values: { [key: string]: string };
+  data?: PatientFormValues;
+  errors: string[];
+  // Set when the file had no patient ID for the row and one was generated, as the registration form does. Only kept
+  // in memory for the key sheet, it is the one copy of the key the patient manages their consents with
+  patientKey?: string;
+  // "exists" rows are left alone, an existing patient is changed through the edit route instead
+  status?: "imported" | "failed" | "exists";
+  message?: string;
+}
+
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId) {
+    return redirect('/sign-in');
+  }
+  if (!orgId) {
+    return redirect('/');
+  }
+
+  return json({ firebaseConfig, orgId });
+};
+
+// Validates every spreadsheet row against the same schema the registration form uses
+const validateRows = (records: { [key: string]: unknown }[]): ImportRow[] => {
+  const seen = new Set<string>();
+  return records.map((spreadsheetRow, index) => {
+    // Exports from before ICD-O-3 coding only have a cancerType column
+    const record = withLegacyCoding(spreadsheetRow);
+    const values: { [key: string]: string } = {};
+    for (const column of COLUMNS) {
+      values[column] = record[column] === undefined ? "" : String(record[column]).trim();
+    }
+    // Existing cohort spreadsheets carry no wallet addresses, those patients get a fresh ID
+    let patientKey: string | undefined;
+    if (values.address === "") {
+      const keypair = generatePatientId();
+      values.address = keypair.address;
+      patientKey = keypair.privateKey;
+    }
+
+    const result = formSchema.safeParse(values);
+    const errors = result.success
+      ? []
+      : result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+
+    // The address is the Firebase key, a second row with it would overwrite the first
+    const key = values.address.toLowerCase();
+    if (key && seen.has(key)) {
+      errors.push("address: Appears more than once in this file.");
+    }
+    seen.add(key);
+
+    return {
+      row: index + 2, // Spreadsheet row, after the header
+      values,
+      patientKey,
+      data: result.success && errors.length === 0 ? result.data : undefined,
+      errors,
+    };
+  });
+};
+
+export default function ImportPatients() {
+  const { firebaseConfig, orgId } = useLoaderData<typeof loader>();
+  const [account, setAccount] = useState<string>('');
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const app = initializeApp(firebaseConfig);
+  const database = getDatabase(app);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const connection = await connectContract(PatientRegistryABI);
+      if (connection) {
+        setAccount(connection.account);
+        setPatientRegistry(connection.contract);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const validRows = rows.filter((row) => row.data && row.status !== "imported" && row.status !== "exists");
+  const keyedRows = rows.filter((row) => row.patientKey && row.status === "imported");
+
+  // Returns why the row must not be written, a draft in Firebase counts as well as an anchored address
+  const findExisting = async (contract: Contract, row: ImportRow) => {
+    const stored = await get(ref(database, institutionPath(orgId, `patients/${row.values.address}`)));
+    if (stored.exists()) {
+      return "A patient with this address is already registered.";
+    }
+    if (Number(await contract.methods.getVersionCount(row.values.address).call()) > 0) {
+      return "This address is already anchored on chain.";
+    }
+    return null;
+  };
+
+  // Dry-runs the batch, and when it would revert finds the rows responsible so they can be left out of it
+  const findRejectedRows = async (contract: Contract, batch: ImportRow[], dataHashes: string[]) => {
+    const rejected = new Map<ImportRow, string>();
+    try {
+      await contract.methods.registerPatients(
+        batch.map((row) => row.values.address),
+        institutionId(orgId),
+        dataHashes,
+        CURRENT_HASH_ALGORITHM,
+        CURRENT_SCHEMA_VERSION
+      ).call({ from: account });
+      return rejected;
+    } catch {
+      for (let i = 0; i < batch.length; i++) {
+        try {
+          await contract.methods.registerPatient(
+            batch[i].values.address,
+            institutionId(orgId),
+            dataHashes[i],
+            CURRENT_HASH_ALGORITHM,
+            CURRENT_SCHEMA_VERSION
+          ).call({ from: account });
+        } catch (error) {
+          rejected.set(batch[i], (error as Error).message);
+        }
+      }
+      return rejected;
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      // SheetJS reads both CSV and XLSX, every cell is read back as text
+      const workbook = XLSX.read(await file.arrayBuffer());
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const records = XLSX.utils.sheet_to_json<{ [key: string]: unknown }>(sheet, { raw: false, defval: "" });
+      setRows(validateRows(records));
+    } catch (error) {
+      console.error("Error reading file:", error);
+      toast({
+        title: "Error",
+        description: "The file could not be read as CSV or XLSX",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // One line per imported patient with a generated id, printed or mailed as their key handoff. The sheet is built in
+  // the browser, the keys never reach the server
+  const downloadPatientKeys = () => {
+    const sheet = XLSX.utils.json_to_sheet(keyedRows.map((row) => ({
+      firstName: row.values.firstName,
+      lastName: row.values.lastName,
+      patientId: row.values.address,
+      patientKey: row.patientKey,
+    })));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Patient keys");
+    XLSX.writeFile(workbook, "patient-keys.csv", { bookType: "csv" });
+  };
+
+  const importRows = async () => {
+    if (!patientRegistry) {
+      console.error("Contract is not initialized");
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const allowed = await isInstitutionClinician(patientRegistry, account, orgId);
+      if (!allowed) {
+        toast({
+          title: "Not authorised",
+          description: "Your wallet is not on the clinician allowlist of this organization. Ask an admin to grant access.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const pending = [...validRows];
+      let imported = 0;
+      let existing = 0;
+
+      for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+        // The rows actually sent, a failure after the drafts are written marks only these
+        let batch: ImportRow[] = [];
+
+        try {
+          const fresh: ImportRow[] = [];
+          for (const row of pending.slice(start, start + BATCH_SIZE)) {
+            const reason = await findExisting(patientRegistry, row);
+            if (reason) {
+              row.status = "exists";
+              row.message = reason;
+              existing++;
+            } else {
+              fresh.push(row);
+            }
+          }
+
+          const records = fresh.map((row) => toPatientRecord(row.data as PatientFormValues));
+          const dataHashes = records.map((record) => hashRecord(record));
+          const rejected = await findRejectedRows(patientRegistry, fresh, dataHashes);
+          for (const [row, message] of rejected) {
+            row.status = "failed";
+            row.message = message;
+          }
+
+          const kept = fresh.map((_, i) => i).filter((i) => !rejected.has(fresh[i]));
+          batch = kept.map((i) => fresh[i]);
+          if (batch.length === 0) continue;
+
+          // Saved as drafts first, a failed transaction leaves them marked and queued for retry
+          const storedRecords = await sealRecords(kept.map((i) => records[i]));
+          for (let i = 0; i < batch.length; i++) {
+            await set(ref(database, institutionPath(orgId, `patients/${batch[i].values.address}`)), { ...storedRecords[i], anchoringStatus: "draft" });
+          }
+
+          const requests = batch.map((row, i) => ({
+            patientAddress: row.values.address,
+            dataHash: dataHashes[kept[i]],
+            algorithm: CURRENT_HASH_ALGORITHM,
+            schemaVersion: CURRENT_SCHEMA_VERSION
+          }));
+          await anchorWithStatus(database, orgId, requests, walletSender(patientRegistry.methods.registerPatients(
+            requests.map((request) => request.patientAddress),
+            institutionId(orgId),
+            requests.map((request) => request.dataHash),
+            CURRENT_HASH_ALGORITHM,
+            CURRENT_SCHEMA_VERSION
+          ), account));
+
+          batch.forEach((row) => (row.status = "imported"));
+          imported += batch.length;
+        } catch (error) {
+          console.error("Error importing batch:", error);
+          // Before the batch was settled every row of the chunk that was still to be written has failed
+          const affected = batch.length > 0 ? batch : pending.slice(start, start + BATCH_SIZE).filter((row) => row.status !== "exists");
+          affected.forEach((row) => {
+            row.status = "failed";
+            row.message = (error as Error).message;
+          });
+        } finally {
+          setRows((current) => [...current]);
+        }
+      }
+
+      toast({
+        title: "Import finished",
+        description: existing > 0
+          ? `${imported} of ${pending.length} patients were registered, ${existing} were already registered and skipped.`
+          : `${imported} of ${pending.length} patients were registered.`,
+        variant: imported + existing === pending.length ? "default" : "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 bg-white shadow rounded-lg space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Import Patient Cohort</h1>
+        <Button variant="outline" asChild>
+          <Link to="/form">Single Registration</Link>
+        </Button>
+      </div>
+
+      <RegistryPausedBanner paused={paused} />
+
+      <p className="text-sm text-gray-500">
+        Upload a CSV or XLSX file with a header row containing: {COLUMNS.join(", ")}. A legacy cancerType
+        column is accepted in place of topographyCode and morphologyCode.
+        Rows without an address get a generated patient ID and key. Download the key sheet once they are imported and
+        hand each patient their key, it is not stored anywhere else and is what they grant and revoke consent with.
+        Rows that fail validation or whose address is already registered are skipped, valid rows are anchored in batches of {BATCH_SIZE}.
+        A row the registry rejects is left out of its batch, the others are still anchored.
+      </p>
+
+      <div className="flex items-center gap-4">
+        <FileUp className="h-5 w-5" />
+        <Input type="file" accept=".csv,.xlsx" onChange={handleFile} className="max-w-md" />
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="flex gap-2">
+              <Badge variant="secondary">{rows.length} rows</Badge>
+              <Badge variant="default">{rows.filter((row) => row.data).length} valid</Badge>
+              <Badge variant="destructive">{rows.filter((row) => !row.data).length} invalid</Badge>
+            </div>
+            <div className="flex gap-2">
+              {keyedRows.length > 0 && (
+                <Button variant="outline" onClick={downloadPatientKeys}>
+                  Download {keyedRows.length} Patient Keys
+                </Button>
+              )}
+              <Button onClick={importRows} disabled={importing || validRows.length === 0}>
+                {importing ? "Importing..." : `Import ${validRows.length} Valid Rows`}
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2">Row</th>
+                  <th className="p-2">Address</th>
+                  <th className="p-2">Name</th>
+                  <th className="p-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.row} className="border-b align-top">
+                    <td className="p-2">{row.row}</td>
+                    <td className="p-2 break-all">
+                      {row.values.address}
+                      {row.patientKey && <Badge variant="outline" className="ml-2">Generated</Badge>}
+                    </td>
+                    <td className="p-2">{row.values.firstName} {row.values.lastName}</td>
+                    <td className="p-2">
+                      {row.errors.length > 0 ? (
+                        <ul className="text-red-600 space-y-1">
+                          {row.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="space-y-1">
+                          <Badge variant={row.status === "failed" ? "destructive" : row.status === "imported" ? "default" : row.status === "exists" ? "secondary" : "outline"}>
+                            {row.status === "imported" ? "Imported" : row.status === "failed" ? "Failed" : row.status === "exists" ? "Already registered" : "Valid"}
+                          </Badge>
+                          {row.message && <p className="text-muted-foreground">{row.message}</p>}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
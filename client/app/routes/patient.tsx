@@ -16,39 +16,70 @@ import {
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
 import PatientRegistryABI from "./artifacts/PatientRegistry.json";
-import { initializeApp } from "firebase/app";
-import { getDatabase, ref, get, query, orderByChild, equalTo } from "firebase/database";
+import { checkIntegrity } from "~/lib/integrity";
+import { ERASURE_REASON_LABELS } from "~/lib/erasure";
+import ConsentRegistryABI from "./artifacts/ConsentRegistry.json";
+import ConsentManager from "~/components/custom/ConsentManager";
+import { loadContract } from "~/lib/web3";
+import type { Contract } from "web3-eth-contract";
 import { useLoaderData } from "@remix-run/react";
-import { firebaseConfig } from "firebaseConfig";
-import CryptoJS from 'crypto-js';
 import { json, LoaderFunction, redirect } from "@remix-run/node";
 import { getAuth } from "@clerk/remix/ssr.server";
 import { useUser } from "@clerk/remix";
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { readPatient } from "~/lib/encryption.server";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { readOnlyContract } from "~/lib/chain.server";
+import { organizationForInstitution } from "~/lib/organizations.server";
+import { useWalletProof } from "~/hooks/use-wallet-proof";
+import { describeDiagnosis } from "~/lib/icd";
 
+// Patients are not members of the clinicians' organization, their record is found from the patient id they proved
+// to hold: the registry names the institution that registered it, and the record is read from that institution
 export const loader: LoaderFunction = async (args) => {
   const { userId } = await getAuth(args);
   if (!userId) {
     return redirect('/sign-in');
   }
-  return json({ firebaseConfig });
+
+  try {
+    const wallet = await readVerifiedWallet(args.request, userId);
+    if (!wallet) {
+      return json({ ownRecords: {}, orgId: null, wallet: null, error: null });
+    }
+
+    const registry = await readOnlyContract(PatientRegistryABI);
+    const registeredBy: string = await registry.methods.getPatientInstitution(wallet).call();
+    const orgId = Number(registeredBy) !== 0 ? await organizationForInstitution(registeredBy) : null;
+    // The registration form keys records by the checksummed id, older records may have been typed in lowercase
+    const record = orgId
+      ? await readPatient(orgId, wallet) ?? await readPatient(orgId, wallet.toLowerCase())
+      : null;
+    return json({ ownRecords: record ? { [wallet]: record } : {}, orgId, wallet, error: null });
+  } catch (error) {
+    console.error("Error loading the patient record:", error);
+    return json({ ownRecords: {}, orgId: null, wallet: null, error: "Your record could not be loaded, please try again later" });
+  }
 };
 
 interface PatientData {
   firstName: string;
   lastName: string;
-  age: number;
+  age: string;
   gender: string;
   contactNumber: string;
   email: string;
   address: string;
-  cancerType: string;
+  cancerType?: string; // only on records from before ICD-O-3 coding
+  timestamp: number;
   diagnosedDate?: string;
   transactionHash?: string;
   [key: string]: any;
 }
 
 export default function FetchPatientData() {
-  const { firebaseConfig } = useLoaderData<any>();
+  const { ownRecords, orgId, wallet, error: loadError } = useLoaderData<any>();
   const [patient, setPatient] = useState<PatientData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -56,26 +87,29 @@ export default function FetchPatientData() {
   const [recordId, setRecordId] = useState<string>("");
   const { toast } = useToast();
 
-  const app = initializeApp(firebaseConfig);
-  const database = getDatabase(app);
-
   const [account, setAccount] = useState<string>('');
   const [patientRegistry, setPatientRegistry] = useState<any>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [consentRegistry, setConsentRegistry] = useState<Contract | null>(null);
   const { isLoaded, isSignedIn, user } = useUser();
+  useWalletProof(account, wallet);
 
   useEffect(() => {
     loadBlockchainData();
-    if (isLoaded && isSignedIn && user) {
+  }, []);
+
+  // Runs again once the connected wallet is linked and the loader has read its record
+  useEffect(() => {
+    if (isLoaded && isSignedIn && user && wallet) {
       fetchPatientData(user.id);
     }
-    
-  }, [isLoaded, isSignedIn, user]);
+  }, [isLoaded, isSignedIn, user, wallet, ownRecords]);
 
   const loadBlockchainData = async () => {
     if (window.ethereum) {
       const web3 = new Web3(window.ethereum);
       try {
-        const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+        const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' }) as string[];
         setAccount(accounts[0]);
 
         const networkId = await web3.eth.net.getId();
@@ -87,6 +121,8 @@ export default function FetchPatientData() {
         } else {
           window.alert('The smart contract is not deployed to the current network');
         }
+
+        setConsentRegistry(loadContract(web3, ConsentRegistryABI, networkId));
       } catch (error) {
         console.error("User denied account access", error);
       }
@@ -100,21 +136,15 @@ export default function FetchPatientData() {
     setError(null);
     try {
       console.log("Fetching data for userId:", userId);
-      const dbRef = query(ref(database, 'patients'), orderByChild('clerkId'), equalTo(userId));
-
-      const snapshot = await get(dbRef);
-  
-      if (snapshot.exists()) {
-        const patientData = snapshot.val();
-        console.log("Retrieved firebase data:", patientData);
+      const patientData: { [key: string]: PatientData } = { ...ownRecords };
   
+      if (Object.keys(patientData).length > 0) {
         // Extract the first key from the data object
         const recordId = Object.keys(patientData)[0]; 
   
         if (patientRegistry) {
           const record = await patientRegistry.methods.getPatientRecord(recordId).call();
           console.log("timestamp:", record.timestamp)
-          console.log("Retrieved blockchain data:", record);
           if (record) {
             patientData[recordId].diagnosedDate = new Date(record.timestamp * 1000).toLocaleString();
 
@@ -150,43 +180,37 @@ export default function FetchPatientData() {
   };
   
 
-  const generateHash = (data: any) => {
-    const relevantData = {
-      firstName: data.firstName,
-      lastName: data.lastName,
-      contactNumber: data.contactNumber,
-      gender: data.gender,
-      cancerType: data.cancerType,
-      age: data.age,
-      email: data.email,
-      timestamp: data.timestamp
-    };
-
-    const sortedData = Object.keys(relevantData).sort().reduce((result: any, key: string) => {
-      result[key] = relevantData[key];
-      return result;
-    }, {});
-
-    return CryptoJS.SHA256(JSON.stringify(sortedData)).toString();
-  };
-
   const verifyDataIntegrity = async () => {
     if (!patientRegistry || !patient) return;
 
     try {
-      const record = await patientRegistry.methods.getPatientRecord(recordId).call();
-      console.log("Retrieved patient record from blockchain:", record);
+      const result = await checkIntegrity(patientRegistry, recordId, patient, orgId);
 
-      const storedHash = record.dataHash;
-      console.log("Stored hash from blockchain:", storedHash);
-
-      const currentHash = generateHash(patient);
-      console.log("Computed hash from Firebase data:", currentHash);
+      if (result.status === "erased") {
+        const erasedOn = new Date((result.erasedAt ?? 0) * 1000).toLocaleString();
+        const reason = result.erasureReason !== undefined ? ERASURE_REASON_LABELS[result.erasureReason] : 'Unknown';
+        setVerificationResult(`Record erased on ${erasedOn}: The patient data has been purged and can no longer be verified.\nReason: ${reason}\nLast Hash in Blockchain: ${result.storedHash}\n`);
+        return;
+      }
 
       let resultMessage = '';
 
-      if (storedHash === currentHash) {
+      if (result.status === "pending") {
+        resultMessage += result.confirmations
+          ? `Data integrity not yet verifiable: The anchoring transaction has ${result.confirmations} confirmation(s) and is not final yet.`
+          : result.mode === "merkle"
+            ? 'Data integrity not yet verifiable: The record is waiting for its Merkle batch to be anchored.'
+            : 'Data integrity not yet verifiable: The anchoring transaction has not gone through yet.';
+      } else if (result.status === "verified") {
         resultMessage += 'Data integrity verified: No alterations detected.';
+      } else if (result.mode === "merkle" && result.batchId === undefined) {
+        resultMessage += 'Data integrity compromised: The record claims a Merkle batch but no anchored proof was found.';
+
+        toast({
+          title: "Data Integrity Compromised",
+          description: "No anchor was found for this record.",
+          variant: "destructive",
+        });
       } else {
         resultMessage += 'Data integrity compromised: Alterations detected.';
 
@@ -196,7 +220,11 @@ export default function FetchPatientData() {
           variant: "destructive",
         });
       }
-      resultMessage += `\nStored Hash in Blockchain: ${storedHash}\nComputed Hash from Database: ${currentHash}\n`;
+      if (result.mode === "merkle") {
+        resultMessage += `\nAnchored in Merkle batch: ${result.batchId ?? 'pending'}\nMerkle Root in Blockchain: ${result.storedHash || 'N/A'}\nComputed Leaf Hash from Database: ${result.currentHash}\n`;
+      } else {
+        resultMessage += `\nStored Hash in Blockchain: ${result.storedHash}\nComputed Hash from Database: ${result.currentHash}\n`;
+      }
       setVerificationResult(resultMessage);
 
     } catch (error) {
@@ -212,9 +240,17 @@ export default function FetchPatientData() {
         <h1 className="text-xl font-bold">Welcome back, {user.firstName}!</h1>
       )}
 
-      {error && (
+      <RegistryPausedBanner paused={paused} />
+
+      {(loadError || error) && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-          {error}
+          {loadError || error}
+        </div>
+      )}
+
+      {!wallet && !loadError && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          Connect the wallet for your patient ID and sign the request to see your record.
         </div>
       )}
 
@@ -257,7 +293,7 @@ export default function FetchPatientData() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Cancer Type:</span>
-                  <Badge variant="secondary">{patient.cancerType}</Badge>
+                  <Badge variant="secondary">{describeDiagnosis(patient)}</Badge>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Transaction Hash:</span>
@@ -284,6 +320,16 @@ export default function FetchPatientData() {
           {verificationResult}
         </div>
       )}
+
+      {patient && account && account.toLowerCase() !== recordId.toLowerCase() && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          Connect the wallet for patient ID {recordId} to manage who can access your record.
+        </div>
+      )}
+
+      {patient && account.toLowerCase() === recordId.toLowerCase() && (
+        <ConsentManager consentRegistry={consentRegistry} account={account} />
+      )}
     </div>
   );
 }
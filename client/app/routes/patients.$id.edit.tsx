@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Contract } from "web3-eth-contract";
+import { Button } from "~/components/ui/button";
+import { Form } from "~/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { toast } from "~/hooks/use-toast";
+import { connectContract } from "~/lib/web3";
+import { readPatient } from "~/lib/encryption.server";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { canRead } from "~/lib/access.server";
+import { sealRecords } from "~/lib/encryption";
+import { withLegacyCoding } from "~/lib/icd";
+import { hashRecord, CURRENT_HASH_ALGORITHM, CURRENT_SCHEMA_VERSION } from "~/lib/hashing";
+import { institutionId, institutionPath, isInstitutionClinician } from "~/lib/institution";
+import type { StoredPatient } from "~/lib/integrity";
+import { anchorViaRelayer } from "~/lib/relay";
+import { anchorWithStatus, walletSender, type AnchorSender } from "~/lib/anchoring";
+import { changedFields, patientFieldsSchema, toPatientRecord, type PatientFormValues } from "~/lib/patient";
+import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import {
+  ChangePreview,
+  DemographicsStep,
+  DiagnosisStep,
+  IntakeProgress,
+  StagingStep,
+} from "~/components/custom/PatientIntakeSteps";
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { INTAKE_STEPS, REVIEW_STEP, useIntakeWizard } from "~/hooks/use-intake-wizard";
+import { initializeApp } from "firebase/app";
+import { getDatabase, ref, update } from "firebase/database";
+import { Link, useLoaderData, useNavigate } from "@remix-run/react";
+import { firebaseConfig } from "firebaseConfig";
+import { redirect, LoaderFunction, json } from "@remix-run/node";
+import { getAuth } from '@clerk/remix/ssr.server';
+
+// Merkle batching is left out, an edit is anchored on its own so it can be verified right away
+type AnchoringMode = "direct" | "relayer";
+
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId) {
+    return redirect('/sign-in');
+  }
+  if (!orgId) {
+    return redirect('/');
+  }
+
+  const patientAddress = args.params.id;
+  if (!patientAddress || !/^0x[a-fA-F0-9]{40}$/.test(patientAddress)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Same rule as the dashboard, the record is only decrypted for a linked wallet that may read it
+  const wallet = await readVerifiedWallet(args.request, userId);
+  if (!wallet || !(await canRead(patientAddress, wallet, orgId))) {
+    throw new Response("Forbidden", { status: 403 });
+  }
+
+  const patient = await readPatient<StoredPatient>(orgId, patientAddress);
+  if (!patient || patient.erased) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Only the fields the wizard edits are sent to the browser, older records start from their mapped codes
+  const record = withLegacyCoding(patient) as unknown as { [field: string]: unknown };
+  const original = Object.fromEntries(
+    Object.keys(patientFieldsSchema.shape).map((field) => [field, field === "address" ? patientAddress : String(record[field] ?? "")])
+  );
+
+  return json({
+    firebaseConfig,
+    orgId,
+    patientAddress,
+    original,
+    registeredAt: patient.timestamp,
+    merklePending: Boolean(patient.merklePending),
+  });
+};
+
+export default function EditPatient() {
+  const { firebaseConfig, orgId, patientAddress, original, registeredAt, merklePending } = useLoaderData<typeof loader>();
+  const [account, setAccount] = useState<string>('');
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [anchoringMode, setAnchoringMode] = useState<AnchoringMode>("direct");
+  const [saving, setSaving] = useState(false);
+  const { form, step, goToStep, nextStep } = useIntakeWizard(original as PatientFormValues);
+  const navigate = useNavigate();
+
+  const app = initializeApp(firebaseConfig);
+  const database = getDatabase(app);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const connection = await connectContract(PatientRegistryABI);
+      if (!connection) return;
+      setAccount(connection.account);
+      setPatientRegistry(connection.contract);
+    };
+
+    loadData();
+  }, [patientAddress]);
+
+  const onSubmit = async (values: PatientFormValues) => {
+    if (changedFields(original as PatientFormValues, values).length === 0) {
+      toast({ title: "No changes", description: "The record is the same as the stored version." });
+      return;
+    }
+
+    // The registration date is part of the hashed record, so the new version keeps the original one
+    const patientData = toPatientRecord(values, registeredAt);
+    const dataHash = hashRecord(patientData);
+    const patientRef = ref(database, institutionPath(orgId, `patients/${patientAddress}`));
+
+    setSaving(true);
+    try {
+      // Through the relayer the wallet signs an attestation instead of the transaction, the allowlist applies to both
+      if (!patientRegistry) {
+        throw new Error("Connect your wallet to anchor the new version");
+      }
+      const allowed = await isInstitutionClinician(patientRegistry, account, orgId);
+      if (!allowed) {
+        toast({
+          title: "Not authorised",
+          description: "Your wallet is not on the clinician allowlist of this organization. Ask an admin to grant access.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // update() keeps fields the wizard does not know about, the legacy cancerType and any Merkle proof no longer apply
+      const [storedData] = await sealRecords([patientData]);
+      await update(patientRef, {
+        ...storedData,
+        updatedAt: Math.floor(Date.now() / 1000),
+        cancerType: null,
+        merkleProof: null,
+        merklePending: null,
+        anchoringStatus: "draft",
+      });
+
+      // Registering an existing patient appends a version, the earlier hashes stay on chain
+      const sender: AnchorSender = anchoringMode === "relayer"
+        ? async (onSubmitted) => {
+          onSubmitted(await anchorViaRelayer(patientAddress, dataHash, patientRegistry, account, orgId));
+          return null;
+        }
+        : walletSender(patientRegistry.methods.registerPatient(
+          patientAddress,
+          institutionId(orgId),
+          dataHash,
+          CURRENT_HASH_ALGORITHM,
+          CURRENT_SCHEMA_VERSION
+        ), account);
+      const transactionHash = await anchorWithStatus(database, orgId, [{
+        patientAddress,
+        dataHash,
+        algorithm: CURRENT_HASH_ALGORITHM,
+        schemaVersion: CURRENT_SCHEMA_VERSION
+      }], sender);
+
+      toast({
+        title: "Patient updated",
+        description: transactionHash
+          ? "The new version was saved and mined, it is verified once the transaction is final."
+          : "The new version was saved, the relayed transaction stays pending until it is mined.",
+      });
+      navigate("/dashboard");
+    } catch (error) {
+      console.error("Error saving patient:", error);
+      toast({
+        title: "Error",
+        description: `There was an error saving the patient: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 bg-white shadow rounded-lg">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Edit Patient</h1>
+          <p className="text-sm text-muted-foreground break-all">{patientAddress}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/dashboard">Dashboard</Link>
+        </Button>
+      </div>
+      <RegistryPausedBanner paused={paused} className="mb-6" />
+      {merklePending ? (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          This record is waiting for the next Merkle batch. It can be edited once the batch has been anchored.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={step === REVIEW_STEP ? form.handleSubmit(onSubmit) : (event) => { event.preventDefault(); nextStep(); }}
+            className="space-y-8"
+          >
+            <IntakeProgress sections={INTAKE_STEPS} step={step} />
+            {step === 0 && <DemographicsStep form={form} />}
+            {step === 1 && <DiagnosisStep form={form} />}
+            {step === 2 && <StagingStep form={form} />}
+            {step === REVIEW_STEP && (
+              <ChangePreview
+                form={form}
+                original={original as PatientFormValues}
+                sections={INTAKE_STEPS.slice(0, REVIEW_STEP)}
+                onEdit={goToStep}
+              />
+            )}
+            <div className="flex items-center gap-4">
+              {step > 0 && (
+                <Button type="button" variant="outline" onClick={() => goToStep(step - 1)}>
+                  Back
+                </Button>
+              )}
+              {step < REVIEW_STEP ? (
+                <Button type="submit">Next</Button>
+              ) : (
+                <>
+                  <Button type="submit" disabled={saving}>
+                    {saving ? "Saving..." : "Save New Version"}
+                  </Button>
+                  <Select value={anchoringMode} onValueChange={(value) => setAnchoringMode(value as AnchoringMode)}>
+                    <SelectTrigger className="max-w-xs" aria-label="Anchoring mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="direct">Anchor with my wallet</SelectItem>
+                      <SelectItem value="relayer">Anchor via server relayer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
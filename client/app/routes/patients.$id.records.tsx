@@ -0,0 +1,138 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Contract } from "web3-eth-contract";
+import { Button } from "~/components/ui/button";
+import { toast } from "~/hooks/use-toast";
+import { connectContract, loadContract } from "~/lib/web3";
+import { readPatient } from "~/lib/encryption.server";
+import { readVerifiedWallet } from "~/lib/wallet-session.server";
+import { canRead } from "~/lib/access.server";
+import { useWalletProof } from "~/hooks/use-wallet-proof";
+import type { PatientRecordData } from "~/lib/patient";
+import ClinicalEventRegistryABI from "./artifacts/ClinicalEventRegistry.json";
+import DocumentRegistryABI from "./artifacts/DocumentRegistry.json";
+import PatientRegistryABI from "./artifacts/PatientRegistry.json";
+import ClinicalTimeline from "~/components/custom/ClinicalTimeline";
+import PatientDocuments from "~/components/custom/PatientDocuments";
+import RegistryPausedBanner from "~/components/custom/RegistryPausedBanner";
+import { useRegistryPaused } from "~/hooks/use-registry-paused";
+import { initializeApp } from "firebase/app";
+import { getDatabase } from "firebase/database";
+import { Link, useLoaderData } from "@remix-run/react";
+import { firebaseConfig } from "firebaseConfig";
+import { redirect, LoaderFunction, json } from "@remix-run/node";
+import { getAuth } from '@clerk/remix/ssr.server';
+
+export const loader: LoaderFunction = async (args) => {
+  const { userId, orgId } = await getAuth(args);
+  if (!userId) {
+    return redirect('/sign-in');
+  }
+  if (!orgId) {
+    return redirect('/');
+  }
+
+  const patientAddress = args.params.id;
+  if (!patientAddress || !/^0x[a-fA-F0-9]{40}$/.test(patientAddress)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Only the name is needed for the heading, and only once the linked wallet may read the record
+  const wallet = await readVerifiedWallet(args.request, userId);
+  const consented = wallet !== null && await canRead(patientAddress, wallet, orgId);
+  const patient = consented ? await readPatient<PatientRecordData & { erased?: boolean }>(orgId, patientAddress) : null;
+  const patientName = patient && !patient.erased ? `${patient.firstName} ${patient.lastName}` : null;
+
+  return json({ firebaseConfig, orgId, patientAddress, patientName, wallet, consented });
+};
+
+export default function PatientRecords() {
+  const { firebaseConfig, orgId, patientAddress, patientName, wallet, consented } = useLoaderData<typeof loader>();
+  const [account, setAccount] = useState<string>('');
+  const [eventRegistry, setEventRegistry] = useState<Contract | null>(null);
+  const [documentRegistry, setDocumentRegistry] = useState<Contract | null>(null);
+  const [patientRegistry, setPatientRegistry] = useState<Contract | null>(null);
+  const { paused } = useRegistryPaused(patientRegistry);
+  const [denied, setDenied] = useState<string | null>(null);
+  useWalletProof(account, wallet);
+
+  const app = initializeApp(firebaseConfig);
+  const database = getDatabase(app);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const connection = await connectContract(ClinicalEventRegistryABI);
+      if (!connection) return;
+
+      const networkId = await connection.web3.eth.net.getId();
+      setPatientRegistry(loadContract(connection.web3, PatientRegistryABI, networkId));
+      setAccount(connection.account);
+
+      try {
+        // Same rule as the dashboard, the loader checked access for the linked wallet and runs again once a new one is linked
+        if (!consented) {
+          setDenied("Your wallet is not a clinician of this organization and has no active consent grant from this patient. Use emergency access from the patient search instead.");
+          return;
+        }
+        if (!patientName) {
+          setDenied("This patient is not registered with your active organization, or their data has been erased");
+          return;
+        }
+
+        setDenied(null);
+        setEventRegistry(connection.contract);
+        setDocumentRegistry(loadContract(connection.web3, DocumentRegistryABI, networkId));
+      } catch (error) {
+        console.error("Error loading patient:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the patient record",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadData();
+  }, [patientAddress, consented, patientName]);
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{patientName || "Medical Records"}</h1>
+          <p className="text-sm text-muted-foreground break-all">{patientAddress}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/dashboard">Dashboard</Link>
+        </Button>
+      </div>
+
+      <RegistryPausedBanner paused={paused} />
+
+      {denied && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {denied}
+        </div>
+      )}
+
+      {eventRegistry && (
+        <ClinicalTimeline
+          eventRegistry={eventRegistry}
+          patientAddress={patientAddress}
+          account={account}
+        />
+      )}
+
+      {eventRegistry && (
+        <PatientDocuments
+          documentRegistry={documentRegistry}
+          database={database}
+          orgId={orgId}
+          patientAddress={patientAddress}
+          account={account}
+        />
+      )}
+    </div>
+  );
+}
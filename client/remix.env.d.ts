@@ -1,2 +1,10 @@
 /// <reference types="@remix-run/dev" />
 /// <reference types="@remix-run/node" />
+
+// Injected by MetaMask and other browser wallets
+interface Window {
+  ethereum?: import("web3-core").AbstractProvider & {
+    // The result depends on the method, callers narrow it to what that method returns
+    request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { findDuplicates, nameSimilarity, normaliseEmail, normaliseName, normalisePhone, scoreMatch } from "~/lib/duplicates";
+
+const existing = {
+  firstName: "José",
+  lastName: "O'Neil",
+  age: "42",
+  dateOfBirth: "1982-03-04",
+  contactNumber: "+60 12-345 6789",
+  email: "jose.oneil+clinic@example.com",
+};
+
+describe("normalisation", () => {
+  it("drops accents, punctuation, dialling prefixes and plus tags", () => {
+    expect(normaliseName("  José  O'Neil ")).toBe("jose oneil");
+    expect(normalisePhone("+60 12-345 6789")).toBe(normalisePhone("012 345 6789"));
+    expect(normaliseEmail(" Jose.ONeil+clinic@Example.com ")).toBe("jose.oneil@example.com");
+  });
+
+  it("scores near-identical names close to one", () => {
+    expect(nameSimilarity("martha", "martha")).toBe(1);
+    expect(nameSimilarity("martha", "marhta")).toBeGreaterThan(0.95);
+    expect(nameSimilarity("", "martha")).toBe(0);
+  });
+});
+
+describe("scoreMatch", () => {
+  it("matches swapped names and a day-month swapped date of birth", () => {
+    const candidate = { ...existing, firstName: "Oneil", lastName: "Jose", dateOfBirth: "1982-04-03" };
+    const { score, fields } = scoreMatch(candidate, existing);
+    expect(fields.name).toBe(1);
+    expect(fields.dateOfBirth).toBe(0.7);
+    expect(score).toBeGreaterThan(0.85);
+  });
+
+  it("falls back to the age when either date of birth is missing", () => {
+    const { fields } = scoreMatch({ ...existing, dateOfBirth: "", age: "43" }, existing);
+    expect(fields.dateOfBirth).toBeUndefined();
+    expect(fields.age).toBe(0.7);
+  });
+});
+
+describe("findDuplicates", () => {
+  const records = {
+    "0x1": existing,
+    "0x2": { ...existing, firstName: "Maria", lastName: "Tan", dateOfBirth: "1990-01-01", contactNumber: "0198765432", email: "maria@example.com" },
+    "0x3": { ...existing, erased: true },
+  };
+
+  it("returns likely matches first and leaves out erased records and the candidate itself", () => {
+    const matches = findDuplicates({ ...existing, address: "0x4" }, records);
+    expect(matches).toEqual([{ address: "0x1", likely: true }]);
+    expect(findDuplicates({ ...existing, address: "0x1" }, records)).toEqual([]);
+  });
+
+  it("flags weaker matches as possible only", () => {
+    const candidate = { ...existing, address: "0x4", contactNumber: "0100000000", email: "other@example.com" };
+    expect(findDuplicates(candidate, records, { possible: 0.3, likely: 0.99 })).toEqual([{ address: "0x1", likely: false }]);
+  });
+});
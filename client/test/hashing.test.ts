@@ -0,0 +1,72 @@
+import { createHash } from "crypto";
+import Web3 from "web3";
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, digest, getSchema, hashRecord, HashAlgorithm } from "~/lib/hashing";
+
+const sha256 = (message: string) => "0x" + createHash("sha256").update(message).digest("hex");
+
+const record = {
+  firstName: "Aisyah",
+  lastName: "Rahman",
+  contactNumber: "0123456789",
+  gender: "female",
+  cancerType: "Breast",
+  age: "54",
+  email: "aisyah@example.com",
+  timestamp: 1700000000,
+  diagnosisDate: "2023-11-01",
+  histology: "Infiltrating duct carcinoma",
+  topographyCode: "C50.9",
+  morphologyCode: "8500/3",
+  dateOfBirth: "1969-05-12",
+};
+
+describe("hashRecord", () => {
+  // Pinned so a change to the serialisation cannot slip through, anchored hashes would stop verifying
+  it("serialises schema 1 as JSON with sorted keys", () => {
+    const canonical = '{"age":"54","cancerType":"Breast","contactNumber":"0123456789","email":"aisyah@example.com",'
+      + '"firstName":"Aisyah","gender":"female","lastName":"Rahman","timestamp":1700000000}';
+    expect(getSchema(1).canonicalize(record)).toBe(canonical);
+    expect(hashRecord(record, HashAlgorithm.SHA256, 1)).toBe(sha256(canonical));
+  });
+
+  it("ignores key order and fields outside the schema", () => {
+    const reordered = Object.fromEntries(Object.entries(record).reverse());
+    for (const version of [1, 2, 3, 4]) {
+      expect(hashRecord(reordered, HashAlgorithm.SHA256, version)).toBe(hashRecord(record, HashAlgorithm.SHA256, version));
+      expect(hashRecord({ ...record, wrappedKey: "ignored" }, HashAlgorithm.SHA256, version))
+        .toBe(hashRecord(record, HashAlgorithm.SHA256, version));
+    }
+  });
+
+  it.each([
+    ["histology", [2, 3, 4], [1]],
+    ["cancerType", [1, 2], [3, 4]],
+    ["topographyCode", [3, 4], [1, 2]],
+    ["dateOfBirth", [4], [1, 2, 3]],
+  ])("covers %s in schemas %j only", (field, covered, uncovered) => {
+    const changed = { ...record, [field]: "changed" };
+    for (const version of covered) {
+      expect(hashRecord(changed, HashAlgorithm.SHA256, version)).not.toBe(hashRecord(record, HashAlgorithm.SHA256, version));
+    }
+    for (const version of uncovered) {
+      expect(hashRecord(changed, HashAlgorithm.SHA256, version)).toBe(hashRecord(record, HashAlgorithm.SHA256, version));
+    }
+  });
+
+  it("defaults to the current schema and SHA-256", () => {
+    expect(hashRecord(record)).toBe(hashRecord(record, HashAlgorithm.SHA256, CURRENT_SCHEMA_VERSION));
+  });
+
+  it("rejects unknown schemas and algorithms", () => {
+    expect(() => hashRecord(record, HashAlgorithm.SHA256, 5)).toThrow("Unknown hash schema version 5");
+    expect(() => digest("x", 7 as HashAlgorithm)).toThrow("Unknown hash algorithm 7");
+  });
+});
+
+describe("digest", () => {
+  it("hashes with the algorithm the contract records", () => {
+    expect(digest("abc", HashAlgorithm.SHA256)).toBe(sha256("abc"));
+    expect(digest("abc", HashAlgorithm.KECCAK256)).toBe(Web3.utils.keccak256("abc"));
+  });
+});
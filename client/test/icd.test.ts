@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { codeDiagnosis, toIcd10, validateCoding } from "~/lib/icd";
+
+describe("validateCoding", () => {
+  it("accepts a histology at a site it arises at", () => {
+    expect(validateCoding("C50.9", "8500/3")).toBeNull();
+  });
+
+  it("rejects site-specific histologies elsewhere", () => {
+    expect(validateCoding("C61.9", "8720/3")).toBe("Melanoma cannot be coded to C61.9 Prostate gland.");
+  });
+
+  it("keeps haematopoietic sites for haematolymphoid neoplasms", () => {
+    expect(validateCoding("C42.1", "8140/3")).toMatch(/only used as a primary site for haematopoietic histologies/);
+    expect(validateCoding("C42.1", "9590/3")).toBeNull();
+  });
+});
+
+describe("toIcd10", () => {
+  it("maps by site, dropping the subsite of undivided categories", () => {
+    expect(toIcd10("C50.9", "8500/3")).toBe("C50.9");
+    expect(toIcd10("C61.9", "8500/3")).toBe("C61");
+  });
+
+  it("classifies skin melanoma and lymphoma by histology", () => {
+    expect(toIcd10("C44.5", "8720/3")).toBe("C43.5");
+    expect(toIcd10("C42.1", "9590/3")).toBe("C85.9");
+  });
+
+  it("labels both codes and the ICD-10 category", () => {
+    const coding = codeDiagnosis("C50.9", "8500/3");
+    expect(coding.topographyLabel).toBe("Breast, NOS");
+    expect(coding.morphologyLabel).toBe("Infiltrating duct carcinoma, NOS");
+    expect(coding.icd10Label).not.toBe("");
+  });
+});
@@ -0,0 +1,51 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import { buildMerkleTree, hashPair, merkleLeaf, verifyMerkleProof } from "~/lib/merkle";
+
+const sha256Hex = (hex: string) => "0x" + createHash("sha256").update(Buffer.from(hex, "hex")).digest("hex");
+const hashOf = (n: number) => "0x" + n.toString(16).padStart(64, "0");
+
+const patient = "0x5B38Da6a701c568545dCfcB03FcB875f56beddC4";
+const otherPatient = "0xAb8483F64d9C6d1EcF9b849Ae677dD3315835cb2";
+
+describe("merkleLeaf", () => {
+  it("tags the leaf and binds the hash to the lowercased patient address", () => {
+    const dataHash = hashOf(1);
+    expect(merkleLeaf(patient, dataHash)).toBe(sha256Hex("00" + patient.slice(2).toLowerCase() + dataHash.slice(2)));
+    expect(merkleLeaf(patient.toLowerCase(), dataHash.toUpperCase().replace("0X", "0x"))).toBe(merkleLeaf(patient, dataHash));
+    expect(merkleLeaf(otherPatient, dataHash)).not.toBe(merkleLeaf(patient, dataHash));
+  });
+});
+
+describe("hashPair", () => {
+  it("sorts the pair, so a proof needs no left or right flags", () => {
+    expect(hashPair(hashOf(2), hashOf(1))).toBe(hashPair(hashOf(1), hashOf(2)));
+    expect(hashPair(hashOf(1), hashOf(2))).toBe(sha256Hex(hashOf(1).slice(2) + hashOf(2).slice(2)));
+  });
+});
+
+describe("buildMerkleTree", () => {
+  it.each([1, 2, 3, 4, 5, 8])("gives every one of %i leaves a proof to the root", (count) => {
+    const leaves = Array.from({ length: count }, (_, i) => merkleLeaf(patient, hashOf(i + 1)));
+    const { root, proofs } = buildMerkleTree(leaves);
+    leaves.forEach((leaf, i) => expect(verifyMerkleProof(leaf, proofs[i], root)).toBe(true));
+  });
+
+  it("carries an unpaired node up unchanged", () => {
+    const leaves = [hashOf(1), hashOf(2), hashOf(3)];
+    const { root, proofs } = buildMerkleTree(leaves);
+    expect(root).toBe(hashPair(hashPair(hashOf(1), hashOf(2)), hashOf(3)));
+    expect(proofs[2]).toEqual([hashPair(hashOf(1), hashOf(2))]);
+  });
+
+  it("rejects a leaf or proof that is not in the tree", () => {
+    const leaves = [hashOf(1), hashOf(2), hashOf(3), hashOf(4)];
+    const { root, proofs } = buildMerkleTree(leaves);
+    expect(verifyMerkleProof(hashOf(5), proofs[0], root)).toBe(false);
+    expect(verifyMerkleProof(leaves[0], proofs[1], root)).toBe(false);
+  });
+
+  it("refuses an empty batch", () => {
+    expect(() => buildMerkleTree([])).toThrow("Cannot build a Merkle tree without leaves");
+  });
+});
@@ -0,0 +1,25 @@
+import Web3 from "web3";
+import { describe, expect, it } from "vitest";
+import { generatePatientId, isValidPatientId } from "~/lib/patient-id";
+
+describe("generatePatientId", () => {
+  it("returns a checksummed address with the key that controls it", () => {
+    const { address, privateKey } = generatePatientId();
+    expect(Web3.utils.toChecksumAddress(address)).toBe(address);
+    expect(new Web3().eth.accounts.privateKeyToAccount(privateKey).address).toBe(address);
+  });
+});
+
+describe("isValidPatientId", () => {
+  const address = "0x5B38Da6a701c568545dCfcB03FcB875f56beddC4";
+
+  it("accepts checksummed and single-case ids", () => {
+    expect(isValidPatientId(address)).toBe(true);
+    expect(isValidPatientId(address.toLowerCase())).toBe(true);
+  });
+
+  it("catches a mistyped character through the checksum", () => {
+    expect(isValidPatientId(address.replace("5B38", "5b38"))).toBe(false);
+    expect(isValidPatientId("0x1234")).toBe(false);
+  });
+});
@@ -0,0 +1,12 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the browser-free helpers in app/lib, the contracts are tested with truffle from the repo root
+export default defineConfig({
+  resolve: {
+    alias: { "~": path.resolve(__dirname, "app") },
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+  },
+});
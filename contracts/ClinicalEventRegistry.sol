@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./PatientRegistry.sol";
+
+contract ClinicalEventRegistry {
+    // Events can only be recorded against patients anchored in this registry, by its allowlisted clinicians
+    PatientRegistry public patientRegistry;
+
+    constructor(address patientRegistryAddress) {
+        patientRegistry = PatientRegistry(patientRegistryAddress);
+    }
+
+    enum EventType {Diagnosis, Surgery, ChemotherapyCycle, RadiotherapyCourse, Recurrence, Death}
+
+    struct ClinicalEvent {
+        EventType eventType;
+        bytes32 dataHash;
+        PatientRegistry.HashAlgorithm algorithm;
+        uint16 schemaVersion;
+        uint256 occurredAt; // When the event happened clinically, as opposed to when it was anchored
+        uint256 timestamp;
+        address recordedBy;
+    }
+
+    // patient => events, the event id is the index in the patient's list
+    mapping(address => ClinicalEvent[]) private patientEvents;
+
+    event ClinicalEventRecorded(
+        address indexed patientAddress,
+        uint256 indexed eventId,
+        EventType indexed eventType,
+        bytes32 dataHash,
+        uint256 occurredAt,
+        uint256 timestamp,
+        address recordedBy
+    );
+
+    function recordEvent(
+        address patientAddress,
+        EventType eventType,
+        bytes32 dataHash,
+        PatientRegistry.HashAlgorithm algorithm,
+        uint16 schemaVersion,
+        uint256 occurredAt
+    ) public returns (uint256) {
+        require(!patientRegistry.paused(), "Registry is paused");
+        require(patientRegistry.isClinician(msg.sender), "Caller is not an allowlisted clinician");
+        require(patientRegistry.getPatientInstitution(patientAddress) != bytes32(0), "Patient is not registered");
+        require(
+            patientRegistry.getClinicianInstitution(msg.sender) == patientRegistry.getPatientInstitution(patientAddress),
+            "Patient belongs to another institution"
+        );
+        require(!patientRegistry.getErasure(patientAddress).erased, "Patient record has been erased");
+        require(dataHash != bytes32(0), "Data hash cannot be empty");
+        require(schemaVersion > 0, "Schema version must be set");
+        require(occurredAt <= block.timestamp, "Event cannot be in the future");
+
+        patientEvents[patientAddress].push(ClinicalEvent({
+            eventType: eventType,
+            dataHash: dataHash,
+            algorithm: algorithm,
+            schemaVersion: schemaVersion,
+            occurredAt: occurredAt,
+            timestamp: block.timestamp,
+            recordedBy: msg.sender
+        }));
+        uint256 eventId = patientEvents[patientAddress].length - 1;
+
+        emit ClinicalEventRecorded(patientAddress, eventId, eventType, dataHash, occurredAt, block.timestamp, msg.sender);
+        return eventId;
+    }
+
+    function getEventCount(address patientAddress) public view returns (uint256) {
+        return patientEvents[patientAddress].length;
+    }
+
+    function getEvent(address patientAddress, uint256 eventId) public view returns (ClinicalEvent memory) {
+        require(eventId < patientEvents[patientAddress].length, "Clinical event does not exist");
+        return patientEvents[patientAddress][eventId];
+    }
+
+    function getEvents(address patientAddress) public view returns (ClinicalEvent[] memory) {
+        return patientEvents[patientAddress];
+    }
+}
@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+interface IPatientRegistry {
+    function admin() external view returns (address);
+    function isClinician(address account) external view returns (bool);
+    function paused() external view returns (bool);
+    function getClinicianInstitution(address account) external view returns (bytes32);
+    function getPatientInstitution(address patientAddress) external view returns (bytes32);
+}
+
+contract ConsentRegistry {
+    // Clinician allowlist and admin are shared with the registry the records are anchored in
+    IPatientRegistry public patientRegistry;
+
+    constructor(address patientRegistryAddress) {
+        patientRegistry = IPatientRegistry(patientRegistryAddress);
+    }
+
+    struct ConsentGrant {
+        address clinician;
+        uint256 grantedAt;
+        uint256 expiresAt; // 0 means the grant never expires
+        bool revoked;
+    }
+
+    // patient => clinician => grant
+    mapping(address => mapping(address => ConsentGrant)) private grants;
+
+    // Every clinician a patient has ever granted, so the patient can list their grants
+    mapping(address => address[]) private grantedClinicians;
+
+    struct EmergencyAccessRecord {
+        address patientAddress;
+        address clinician;
+        bytes32 reasonHash;
+        uint256 timestamp;
+        bool reviewed;
+        address reviewedBy;
+        uint256 reviewedAt;
+    }
+
+    // Break-the-glass accesses, the access id is the index in this array
+    EmergencyAccessRecord[] private emergencyAccesses;
+
+    event ConsentGranted(address indexed patientAddress, address indexed clinician, uint256 expiresAt, uint256 timestamp);
+    event ConsentRevoked(address indexed patientAddress, address indexed clinician, uint256 timestamp);
+    event EmergencyAccess(uint256 indexed accessId, address indexed patientAddress, address indexed clinician, bytes32 reasonHash, uint256 timestamp);
+    event EmergencyAccessReviewed(uint256 indexed accessId, address indexed reviewer, uint256 timestamp);
+
+    // Pausing the registry halts the consent writes too
+    modifier whenNotPaused() {
+        require(!patientRegistry.paused(), "Registry is paused");
+        _;
+    }
+
+    // The caller is the patient, so only the patient's own wallet can grant access to their record
+    function grantConsent(address clinician, uint256 expiresAt) public whenNotPaused {
+        require(clinician != address(0), "Clinician address cannot be zero");
+        require(expiresAt == 0 || expiresAt > block.timestamp, "Expiry must be in the future");
+
+        if (grants[msg.sender][clinician].grantedAt == 0) {
+            grantedClinicians[msg.sender].push(clinician);
+        }
+
+        grants[msg.sender][clinician] = ConsentGrant({
+            clinician: clinician,
+            grantedAt: block.timestamp,
+            expiresAt: expiresAt,
+            revoked: false
+        });
+
+        emit ConsentGranted(msg.sender, clinician, expiresAt, block.timestamp);
+    }
+
+    function revokeConsent(address clinician) public whenNotPaused {
+        ConsentGrant storage grant = grants[msg.sender][clinician];
+        require(grant.grantedAt != 0 && !grant.revoked, "No active consent for this clinician");
+
+        grant.revoked = true;
+
+        emit ConsentRevoked(msg.sender, clinician, block.timestamp);
+    }
+
+    function hasActiveConsent(address patientAddress, address clinician) public view returns (bool) {
+        ConsentGrant memory grant = grants[patientAddress][clinician];
+        if (grant.grantedAt == 0 || grant.revoked) {
+            return false;
+        }
+        return grant.expiresAt == 0 || grant.expiresAt > block.timestamp;
+    }
+
+    function getConsent(address patientAddress, address clinician) public view returns (ConsentGrant memory) {
+        return grants[patientAddress][clinician];
+    }
+
+    function getConsents(address patientAddress) public view returns (ConsentGrant[] memory) {
+        address[] memory clinicians = grantedClinicians[patientAddress];
+        ConsentGrant[] memory result = new ConsentGrant[](clinicians.length);
+        for (uint256 i = 0; i < clinicians.length; i++) {
+            result[i] = grants[patientAddress][clinicians[i]];
+        }
+        return result;
+    }
+
+    // Opens a record without consent; the justification itself is kept off-chain, only its hash is logged.
+    // Only a clinician of the institution that registered the patient may break the glass
+    function recordEmergencyAccess(address patientAddress, bytes32 reasonHash) public whenNotPaused returns (uint256) {
+        require(patientRegistry.isClinician(msg.sender), "Caller is not an allowlisted clinician");
+        bytes32 institutionId = patientRegistry.getPatientInstitution(patientAddress);
+        require(institutionId != bytes32(0), "Patient record does not exist");
+        require(patientRegistry.getClinicianInstitution(msg.sender) == institutionId, "Caller is not a clinician of the patient's institution");
+        require(reasonHash != bytes32(0), "A justification is required for emergency access");
+
+        emergencyAccesses.push(EmergencyAccessRecord({
+            patientAddress: patientAddress,
+            clinician: msg.sender,
+            reasonHash: reasonHash,
+            timestamp: block.timestamp,
+            reviewed: false,
+            reviewedBy: address(0),
+            reviewedAt: 0
+        }));
+        uint256 accessId = emergencyAccesses.length - 1;
+
+        emit EmergencyAccess(accessId, patientAddress, msg.sender, reasonHash, block.timestamp);
+        return accessId;
+    }
+
+    // Retrospective sign-off of an emergency access by the registry admin
+    function reviewEmergencyAccess(uint256 accessId) public whenNotPaused {
+        require(msg.sender == patientRegistry.admin(), "This function is restricted to the admin");
+        require(accessId < emergencyAccesses.length, "Emergency access does not exist");
+
+        EmergencyAccessRecord storage access = emergencyAccesses[accessId];
+        require(!access.reviewed, "Emergency access has already been reviewed");
+
+        access.reviewed = true;
+        access.reviewedBy = msg.sender;
+        access.reviewedAt = block.timestamp;
+
+        emit EmergencyAccessReviewed(accessId, msg.sender, block.timestamp);
+    }
+
+    function getEmergencyAccessCount() public view returns (uint256) {
+        return emergencyAccesses.length;
+    }
+
+    function getEmergencyAccess(uint256 accessId) public view returns (EmergencyAccessRecord memory) {
+        require(accessId < emergencyAccesses.length, "Emergency access does not exist");
+        return emergencyAccesses[accessId];
+    }
+}
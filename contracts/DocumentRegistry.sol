@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./PatientRegistry.sol";
+
+contract DocumentRegistry {
+    // Documents are attached to patients anchored in this registry, by its allowlisted clinicians
+    PatientRegistry public patientRegistry;
+
+    constructor(address patientRegistryAddress) {
+        patientRegistry = PatientRegistry(patientRegistryAddress);
+    }
+
+    struct Document {
+        bytes32 contentHash; // SHA-256 of the file bytes, the file itself stays in blob storage
+        uint256 timestamp;
+        address uploadedBy;
+    }
+
+    // patient => documents, the document id is the index in the patient's list
+    mapping(address => Document[]) private patientDocuments;
+
+    event DocumentAnchored(address indexed patientAddress, uint256 indexed documentId, bytes32 contentHash, uint256 timestamp, address indexed uploadedBy);
+
+    function anchorDocument(address patientAddress, bytes32 contentHash) public returns (uint256) {
+        require(!patientRegistry.paused(), "Registry is paused");
+        require(patientRegistry.isClinician(msg.sender), "Caller is not an allowlisted clinician");
+        require(patientRegistry.getPatientInstitution(patientAddress) != bytes32(0), "Patient is not registered");
+        require(
+            patientRegistry.getClinicianInstitution(msg.sender) == patientRegistry.getPatientInstitution(patientAddress),
+            "Patient belongs to another institution"
+        );
+        require(!patientRegistry.getErasure(patientAddress).erased, "Patient record has been erased");
+        require(contentHash != bytes32(0), "Content hash cannot be empty");
+
+        patientDocuments[patientAddress].push(Document({
+            contentHash: contentHash,
+            timestamp: block.timestamp,
+            uploadedBy: msg.sender
+        }));
+        uint256 documentId = patientDocuments[patientAddress].length - 1;
+
+        emit DocumentAnchored(patientAddress, documentId, contentHash, block.timestamp, msg.sender);
+        return documentId;
+    }
+
+    function getDocumentCount(address patientAddress) public view returns (uint256) {
+        return patientDocuments[patientAddress].length;
+    }
+
+    function getDocument(address patientAddress, uint256 documentId) public view returns (Document memory) {
+        require(documentId < patientDocuments[patientAddress].length, "Document does not exist");
+        return patientDocuments[patientAddress][documentId];
+    }
+}
@@ -2,28 +2,441 @@
 pragma solidity ^0.8.19;
 
 contract PatientRegistry {
+    address public admin;
+
+    // Circuit breaker for a compromised clinician key, reads and allowlist changes keep working while set
+    bool public paused;
+
+    constructor() {
+        admin = msg.sender; // The admin is the one who deploys the contract
+    }
+
+    // Identifies how dataHash was computed, so the hashing rules can change without breaking older records
+    enum HashAlgorithm { SHA256, KECCAK256 }
+
     struct PatientRecord {
-        string dataHash;
+        bytes32 institutionId; // Hash of the Clerk organization that anchored the record
+        bytes32 dataHash;
+        HashAlgorithm algorithm;
+        uint16 schemaVersion; // Version of the canonical field set that was hashed
+        uint256 timestamp;
+        address attestedBy; // Clinician whose EIP-712 signature vouched for the hash, zero when sent directly
+    }
+
+    // Every registration is kept, version n lives at index n - 1
+    mapping(address => PatientRecord[]) private patientHistory;
+
+    // Every registered address once, in order of first registration, so the registry can be enumerated
+    address[] private registeredAddresses;
+
+    // A patient belongs to the institution that first registered them, later versions must come from it too
+    mapping(address => bytes32) private patientInstitutions;
+    mapping(bytes32 => address[]) private institutionPatients;
+
+    // Roots of Merkle trees over record hashes, anchored instead of one transaction per record
+    struct MerkleBatch {
+        bytes32 institutionId;
+        bytes32 root;
+        uint256 leafCount;
+        HashAlgorithm algorithm; // Algorithm of the leaves, pairs are always combined with SHA-256
+        uint16 schemaVersion;
+        uint256 timestamp;
+        address submittedBy;
+    }
+
+    MerkleBatch[] private merkleBatches;
+
+    // Why a record was erased, the plaintext justification stays off-chain
+    enum ErasureReason { PatientRequest, ConsentWithdrawn, LegalObligation, DataError }
+
+    // Tombstone left after the off-chain data is purged, the anchored hashes are kept as an audit trail
+    struct Erasure {
+        bool erased;
+        ErasureReason reason;
         uint256 timestamp;
+        address erasedBy;
+    }
+
+    mapping(address => Erasure) private erasures;
+
+    // EIP-712 typed data a clinician signs to vouch for a record, nonces stop a signature being replayed
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant ATTESTATION_TYPEHASH =
+        keccak256("Attestation(address patientAddress,bytes32 institutionId,bytes32 dataHash,uint8 algorithm,uint16 schemaVersion,uint256 nonce)");
+
+    mapping(address => uint256) private attestationNonces;
+
+    // Addresses allowed to anchor patient records, each only for the institution it was granted for
+    mapping(address => bytes32) private clinicianInstitutions;
+
+    // Server-held keys that submit attested registrations and pay for them. The clinician's signature authorises
+    // the record, a relayer cannot anchor anything on its own and is not a clinician, it cannot log emergency accesses
+    mapping(address => bool) private relayers;
+
+    event PatientRegistered(address indexed patientAddress, bytes32 indexed institutionId, uint256 indexed version, bytes32 dataHash, HashAlgorithm algorithm, uint16 schemaVersion, uint256 timestamp);
+    event MerkleRootAnchored(uint256 indexed batchId, bytes32 indexed institutionId, bytes32 root, uint256 leafCount, HashAlgorithm algorithm, uint16 schemaVersion, uint256 timestamp);
+    event RecordAttested(address indexed patientAddress, uint256 indexed version, address indexed clinician);
+    event PatientErased(address indexed patientAddress, bytes32 indexed institutionId, ErasureReason reason, uint256 timestamp, address indexed erasedBy);
+    event Paused(address indexed pausedBy, uint256 timestamp);
+    event Unpaused(address indexed unpausedBy, uint256 timestamp);
+    event ClinicianGranted(address indexed clinician, bytes32 indexed institutionId, address indexed grantedBy);
+    event ClinicianRevoked(address indexed clinician, bytes32 indexed institutionId, address indexed revokedBy);
+    event RelayerGranted(address indexed relayer, address indexed grantedBy);
+    event RelayerRevoked(address indexed relayer, address indexed revokedBy);
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "This function is restricted to the admin");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(!paused, "Registry is paused");
+        _;
+    }
+
+    modifier onlyClinicianOf(bytes32 institutionId) {
+        require(clinicianInstitutions[msg.sender] != bytes32(0), "Caller is not an allowlisted clinician");
+        require(clinicianInstitutions[msg.sender] == institutionId, "Caller is not a clinician of this institution");
+        _;
+    }
+
+    modifier onlyRelayerOrSigner(address clinician) {
+        require(relayers[msg.sender] || msg.sender == clinician, "Caller is not a relayer or the signing clinician");
+        _;
+    }
+
+    function pause() public onlyAdmin {
+        require(!paused, "Registry is already paused");
+
+        paused = true;
+        emit Paused(msg.sender, block.timestamp);
+    }
+
+    function unpause() public onlyAdmin {
+        require(paused, "Registry is not paused");
+
+        paused = false;
+        emit Unpaused(msg.sender, block.timestamp);
+    }
+
+    // A clinician anchors for one institution, moving to another means revoking and granting again
+    function grantClinician(address clinician, bytes32 institutionId) public onlyAdmin {
+        require(clinician != address(0), "Clinician address cannot be zero");
+        require(institutionId != bytes32(0), "Institution cannot be empty");
+        require(clinicianInstitutions[clinician] == bytes32(0), "Address is already a clinician");
+
+        clinicianInstitutions[clinician] = institutionId;
+        emit ClinicianGranted(clinician, institutionId, msg.sender);
+    }
+
+    function revokeClinician(address clinician) public onlyAdmin {
+        bytes32 institutionId = clinicianInstitutions[clinician];
+        require(institutionId != bytes32(0), "Address is not a clinician");
+
+        clinicianInstitutions[clinician] = bytes32(0);
+        emit ClinicianRevoked(clinician, institutionId, msg.sender);
+    }
+
+    // True for a clinician of any institution, callers that act for one institution check getClinicianInstitution
+    function isClinician(address account) public view returns (bool) {
+        return clinicianInstitutions[account] != bytes32(0);
+    }
+
+    function getClinicianInstitution(address account) public view returns (bytes32) {
+        return clinicianInstitutions[account];
+    }
+
+    function grantRelayer(address relayer) public onlyAdmin {
+        require(relayer != address(0), "Relayer address cannot be zero");
+        // The relayer's key sits on the web server, it must never be the one that can grant roles or erase records
+        require(relayer != admin, "The admin cannot be a relayer");
+        require(!relayers[relayer], "Address is already a relayer");
+
+        relayers[relayer] = true;
+        emit RelayerGranted(relayer, msg.sender);
+    }
+
+    function revokeRelayer(address relayer) public onlyAdmin {
+        require(relayers[relayer], "Address is not a relayer");
+
+        relayers[relayer] = false;
+        emit RelayerRevoked(relayer, msg.sender);
+    }
+
+    function isRelayer(address account) public view returns (bool) {
+        return relayers[account];
+    }
+
+    function registerPatient(
+        address patientAddress,
+        bytes32 institutionId,
+        bytes32 dataHash,
+        HashAlgorithm algorithm,
+        uint16 schemaVersion
+    ) public onlyClinicianOf(institutionId) whenNotPaused {
+        _registerPatient(patientAddress, institutionId, dataHash, algorithm, schemaVersion, address(0));
     }
-    
-    mapping(address => PatientRecord) private patientRecords;
-    
-    event PatientRegistered(address indexed patientAddress, string dataHash, uint256 timestamp);
 
-    function registerPatient(address patientAddress, string memory dataHash) public {
+    // Submitted by a relayer or by the clinician themselves, the clinician's signature is what authorises the record
+    function registerAttestedPatient(
+        address patientAddress,
+        bytes32 institutionId,
+        bytes32 dataHash,
+        HashAlgorithm algorithm,
+        uint16 schemaVersion,
+        address clinician,
+        bytes memory signature
+    ) public onlyRelayerOrSigner(clinician) whenNotPaused {
+        require(clinicianInstitutions[clinician] != bytes32(0), "Signer is not an allowlisted clinician");
+        require(clinicianInstitutions[clinician] == institutionId, "Signer is not a clinician of this institution");
+        require(
+            recoverAttestation(
+                patientAddress, institutionId, dataHash, algorithm, schemaVersion, attestationNonces[clinician], signature
+            ) == clinician,
+            "Attestation was not signed by the clinician"
+        );
+
+        attestationNonces[clinician]++;
+        _registerPatient(patientAddress, institutionId, dataHash, algorithm, schemaVersion, clinician);
+    }
+
+    function getAttestationNonce(address clinician) public view returns (uint256) {
+        return attestationNonces[clinician];
+    }
+
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256(bytes("PatientRegistry")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    // Returns the address that signed the attestation, or zero for a signature that does not recover. The signed
+    // institution and algorithm keep a relayer from anchoring the hash for another institution or under another scheme
+    function recoverAttestation(
+        address patientAddress,
+        bytes32 institutionId,
+        bytes32 dataHash,
+        HashAlgorithm algorithm,
+        uint16 schemaVersion,
+        uint256 nonce,
+        bytes memory signature
+    ) public view returns (address) {
+        require(signature.length == 65, "Invalid signature length");
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(signature, 32))
+            s := mload(add(signature, 64))
+            v := byte(0, mload(add(signature, 96)))
+        }
+        if (v < 27) {
+            v += 27;
+        }
+        // Rejects the malleable upper-half s values, as OpenZeppelin's ECDSA does
+        require(uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0, "Invalid signature");
+
+        bytes32 structHash = keccak256(abi.encode(
+            ATTESTATION_TYPEHASH, patientAddress, institutionId, dataHash, uint8(algorithm), schemaVersion, nonce
+        ));
+        return ecrecover(keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash)), v, r, s);
+    }
+
+    // Anchors a whole cohort in one transaction, the arrays are matched by index
+    function registerPatients(
+        address[] memory patientAddresses,
+        bytes32 institutionId,
+        bytes32[] memory dataHashes,
+        HashAlgorithm algorithm,
+        uint16 schemaVersion
+    ) public onlyClinicianOf(institutionId) whenNotPaused {
+        require(patientAddresses.length == dataHashes.length, "Addresses and hashes must have the same length");
+        require(patientAddresses.length > 0, "Batch cannot be empty");
+
+        for (uint256 i = 0; i < patientAddresses.length; i++) {
+            _registerPatient(patientAddresses[i], institutionId, dataHashes[i], algorithm, schemaVersion, address(0));
+        }
+    }
+
+    function _registerPatient(
+        address patientAddress,
+        bytes32 institutionId,
+        bytes32 dataHash,
+        HashAlgorithm algorithm,
+        uint16 schemaVersion,
+        address attestedBy
+    ) private {
+        require(institutionId != bytes32(0), "Institution cannot be empty");
+        require(dataHash != bytes32(0), "Data hash cannot be empty");
+        require(schemaVersion > 0, "Schema version must be set");
+        require(!erasures[patientAddress].erased, "Patient record has been erased");
+
         PatientRecord memory newRecord = PatientRecord({
+            institutionId: institutionId,
             dataHash: dataHash,
-            timestamp: block.timestamp
+            algorithm: algorithm,
+            schemaVersion: schemaVersion,
+            timestamp: block.timestamp,
+            attestedBy: attestedBy
         });
-        
-        // Overwrite the existing record for the patient address
-        patientRecords[patientAddress] = newRecord;
-        
-        emit PatientRegistered(patientAddress, dataHash, block.timestamp);
+
+        if (patientHistory[patientAddress].length == 0) {
+            registeredAddresses.push(patientAddress);
+            patientInstitutions[patientAddress] = institutionId;
+            institutionPatients[institutionId].push(patientAddress);
+        } else {
+            require(patientInstitutions[patientAddress] == institutionId, "Patient belongs to another institution");
+        }
+
+        // Append a new version instead of overwriting the previous one
+        patientHistory[patientAddress].push(newRecord);
+        uint256 version = patientHistory[patientAddress].length;
+
+        emit PatientRegistered(patientAddress, institutionId, version, dataHash, algorithm, schemaVersion, block.timestamp);
+        if (attestedBy != address(0)) {
+            emit RecordAttested(patientAddress, version, attestedBy);
+        }
     }
 
+    // Returns the latest version, or an empty record if the patient was never registered
     function getPatientRecord(address patientAddress) public view returns (PatientRecord memory) {
-        return patientRecords[patientAddress];
+        PatientRecord[] storage history = patientHistory[patientAddress];
+        if (history.length == 0) {
+            return PatientRecord({ institutionId: bytes32(0), dataHash: bytes32(0), algorithm: HashAlgorithm.SHA256, schemaVersion: 0, timestamp: 0, attestedBy: address(0) });
+        }
+        return history[history.length - 1];
+    }
+
+    function getPatientCount() public view returns (uint256) {
+        return registeredAddresses.length;
+    }
+
+    function getPatientAddresses(uint256 offset, uint256 limit) public view returns (address[] memory) {
+        return _page(registeredAddresses, offset, limit);
+    }
+
+    function getPatientInstitution(address patientAddress) public view returns (bytes32) {
+        return patientInstitutions[patientAddress];
+    }
+
+    function getInstitutionPatientCount(bytes32 institutionId) public view returns (uint256) {
+        return institutionPatients[institutionId].length;
+    }
+
+    function getInstitutionPatientAddresses(bytes32 institutionId, uint256 offset, uint256 limit) public view returns (address[] memory) {
+        return _page(institutionPatients[institutionId], offset, limit);
+    }
+
+    // Returns up to limit addresses starting at offset, an offset past the end returns an empty page
+    function _page(address[] storage list, uint256 offset, uint256 limit) private view returns (address[] memory) {
+        if (offset >= list.length) {
+            return new address[](0);
+        }
+
+        uint256 end = offset + limit;
+        if (end > list.length) {
+            end = list.length;
+        }
+
+        address[] memory page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = list[i];
+        }
+        return page;
+    }
+
+    function getVersionCount(address patientAddress) public view returns (uint256) {
+        return patientHistory[patientAddress].length;
+    }
+
+    function getPatientVersion(address patientAddress, uint256 version) public view returns (PatientRecord memory) {
+        require(
+            version > 0 && version <= patientHistory[patientAddress].length,
+            "Version does not exist for this patient"
+        );
+        return patientHistory[patientAddress][version - 1];
+    }
+
+    function getPatientHistory(address patientAddress) public view returns (PatientRecord[] memory) {
+        return patientHistory[patientAddress];
+    }
+
+    // Records that were only Merkle-batched or never anchored have no history, the tombstone still blocks the address.
+    // Without a history the institution cannot be read back, so the admin names the one whose data was purged
+    function erasePatient(address patientAddress, bytes32 institutionId, ErasureReason reason) public onlyAdmin whenNotPaused {
+        require(patientAddress != address(0), "Patient address cannot be zero");
+        require(institutionId != bytes32(0), "Institution cannot be empty");
+        require(!erasures[patientAddress].erased, "Patient record is already erased");
+        if (patientHistory[patientAddress].length > 0) {
+            require(patientInstitutions[patientAddress] == institutionId, "Patient belongs to another institution");
+        }
+
+        erasures[patientAddress] = Erasure({
+            erased: true,
+            reason: reason,
+            timestamp: block.timestamp,
+            erasedBy: msg.sender
+        });
+
+        emit PatientErased(patientAddress, institutionId, reason, block.timestamp, msg.sender);
+    }
+
+    function getErasure(address patientAddress) public view returns (Erasure memory) {
+        return erasures[patientAddress];
+    }
+
+    function anchorMerkleRoot(
+        bytes32 institutionId,
+        bytes32 root,
+        uint256 leafCount,
+        HashAlgorithm algorithm,
+        uint16 schemaVersion
+    ) public onlyClinicianOf(institutionId) whenNotPaused returns (uint256) {
+        require(institutionId != bytes32(0), "Institution cannot be empty");
+        require(root != bytes32(0), "Merkle root cannot be empty");
+        require(leafCount > 0, "Batch cannot be empty");
+        require(schemaVersion > 0, "Schema version must be set");
+
+        merkleBatches.push(MerkleBatch({
+            institutionId: institutionId,
+            root: root,
+            leafCount: leafCount,
+            algorithm: algorithm,
+            schemaVersion: schemaVersion,
+            timestamp: block.timestamp,
+            submittedBy: msg.sender
+        }));
+        uint256 batchId = merkleBatches.length - 1;
+
+        emit MerkleRootAnchored(batchId, institutionId, root, leafCount, algorithm, schemaVersion, block.timestamp);
+        return batchId;
+    }
+
+    function getMerkleBatchCount() public view returns (uint256) {
+        return merkleBatches.length;
+    }
+
+    function getMerkleBatch(uint256 batchId) public view returns (MerkleBatch memory) {
+        require(batchId < merkleBatches.length, "Merkle batch does not exist");
+        return merkleBatches[batchId];
+    }
+
+    // Pairs are hashed in sorted order with SHA-256, matching the tree built by the client
+    function verifyMerkleProof(uint256 batchId, bytes32 leaf, bytes32[] memory proof) public view returns (bool) {
+        require(batchId < merkleBatches.length, "Merkle batch does not exist");
+
+        bytes32 computed = leaf;
+        for (uint256 i = 0; i < proof.length; i++) {
+            computed = computed <= proof[i]
+                ? sha256(abi.encodePacked(computed, proof[i]))
+                : sha256(abi.encodePacked(proof[i], computed));
+        }
+        return computed == merkleBatches[batchId].root;
     }
 }
@@ -0,0 +1,6 @@
+const PatientRegistry = artifacts.require("PatientRegistry");
+const ConsentRegistry = artifacts.require("ConsentRegistry");
+
+module.exports = function (deployer) {
+  deployer.deploy(ConsentRegistry, PatientRegistry.address);
+};
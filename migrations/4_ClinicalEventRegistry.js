@@ -0,0 +1,6 @@
+const PatientRegistry = artifacts.require("PatientRegistry");
+const ClinicalEventRegistry = artifacts.require("ClinicalEventRegistry");
+
+module.exports = function (deployer) {
+  deployer.deploy(ClinicalEventRegistry, PatientRegistry.address);
+};
\ No newline at end of file
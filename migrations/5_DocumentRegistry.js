@@ -0,0 +1,6 @@
+const PatientRegistry = artifacts.require("PatientRegistry");
+const DocumentRegistry = artifacts.require("DocumentRegistry");
+
+module.exports = function (deployer) {
+  deployer.deploy(DocumentRegistry, PatientRegistry.address);
+};
\ No newline at end of file
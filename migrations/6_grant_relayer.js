@@ -0,0 +1,18 @@
+const PatientRegistry = artifacts.require("PatientRegistry");
+
+// The relayer in client/app/lib/relayer.server.ts sends from the first account of RELAYER_MNEMONIC. That key sits
+// on the web server, so it has to be its own and never the deployer's, which is the registry admin. A local
+// Ganache or `truffle test` chain uses its second account
+module.exports = async function (deployer, network, accounts) {
+  const local = network === "development" || network === "test";
+  const relayer = process.env.RELAYER_ADDRESS || (local ? accounts[1] : undefined);
+  if (!relayer) {
+    throw new Error("Set RELAYER_ADDRESS to the first account of RELAYER_MNEMONIC");
+  }
+  if (relayer.toLowerCase() === accounts[0].toLowerCase()) {
+    throw new Error("RELAYER_ADDRESS must not be the deployer's account");
+  }
+
+  const registry = await PatientRegistry.deployed();
+  await registry.grantRelayer(relayer);
+};
@@ -0,0 +1,90 @@
+const PatientRegistry = artifacts.require("PatientRegistry");
+const ConsentRegistry = artifacts.require("ConsentRegistry");
+const { institutionId, randomHash, HashAlgorithm, expectRevert, increaseTime } = require("./helpers");
+
+contract("ConsentRegistry", (accounts) => {
+  const [admin, clinician, otherClinician, patient, outsider] = accounts;
+  const institution = institutionId("org_hospital");
+  const otherInstitution = institutionId("org_clinic");
+  let registry;
+  let consents;
+
+  beforeEach(async () => {
+    registry = await PatientRegistry.new({ from: admin });
+    consents = await ConsentRegistry.new(registry.address, { from: admin });
+    await registry.grantClinician(clinician, institution, { from: admin });
+    await registry.grantClinician(otherClinician, otherInstitution, { from: admin });
+    await registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: clinician });
+  });
+
+  describe("consent", () => {
+    it("grants and revokes access from the patient's own wallet", async () => {
+      await consents.grantConsent(otherClinician, 0, { from: patient });
+      assert.isTrue(await consents.hasActiveConsent(patient, otherClinician));
+      assert.lengthOf(await consents.getConsents(patient), 1);
+
+      await expectRevert(consents.revokeConsent(otherClinician, { from: outsider }), "No active consent");
+      await consents.revokeConsent(otherClinician, { from: patient });
+      assert.isFalse(await consents.hasActiveConsent(patient, otherClinician));
+      assert.isTrue((await consents.getConsent(patient, otherClinician)).revoked);
+    });
+
+    it("lets a grant lapse at its expiry", async () => {
+      const { timestamp } = await web3.eth.getBlock("latest");
+      await expectRevert(consents.grantConsent(otherClinician, timestamp - 1, { from: patient }), "Expiry must be in the future");
+
+      await consents.grantConsent(otherClinician, timestamp + 60, { from: patient });
+      assert.isTrue(await consents.hasActiveConsent(patient, otherClinician));
+      await increaseTime(120);
+      assert.isFalse(await consents.hasActiveConsent(patient, otherClinician));
+    });
+  });
+
+  describe("emergency access", () => {
+    it("logs an access by a clinician of the patient's institution and lets the admin sign it off", async () => {
+      const reasonHash = randomHash();
+      await consents.recordEmergencyAccess(patient, reasonHash, { from: clinician });
+      assert.equal(Number(await consents.getEmergencyAccessCount()), 1);
+
+      const access = await consents.getEmergencyAccess(0);
+      assert.equal(access.clinician, clinician);
+      assert.equal(access.reasonHash, reasonHash);
+      assert.isFalse(access.reviewed);
+
+      await expectRevert(consents.reviewEmergencyAccess(0, { from: clinician }), "restricted to the admin");
+      await consents.reviewEmergencyAccess(0, { from: admin });
+      assert.isTrue((await consents.getEmergencyAccess(0)).reviewed);
+      await expectRevert(consents.reviewEmergencyAccess(0, { from: admin }), "already been reviewed");
+    });
+
+    it("refuses clinicians of another institution, outsiders and unregistered patients", async () => {
+      await expectRevert(
+        consents.recordEmergencyAccess(patient, randomHash(), { from: otherClinician }),
+        "not a clinician of the patient's institution"
+      );
+      await expectRevert(consents.recordEmergencyAccess(patient, randomHash(), { from: outsider }), "not an allowlisted clinician");
+      await expectRevert(consents.recordEmergencyAccess(outsider, randomHash(), { from: clinician }), "Patient record does not exist");
+      await expectRevert(
+        consents.recordEmergencyAccess(patient, "0x" + "00".repeat(32), { from: clinician }),
+        "A justification is required"
+      );
+    });
+  });
+
+  describe("pause", () => {
+    it("halts grants, revocations and emergency accesses while the registry is paused", async () => {
+      await consents.grantConsent(otherClinician, 0, { from: patient });
+      await consents.recordEmergencyAccess(patient, randomHash(), { from: clinician });
+      await registry.pause({ from: admin });
+
+      await expectRevert(consents.grantConsent(outsider, 0, { from: patient }), "Registry is paused");
+      await expectRevert(consents.revokeConsent(otherClinician, { from: patient }), "Registry is paused");
+      await expectRevert(consents.recordEmergencyAccess(patient, randomHash(), { from: clinician }), "Registry is paused");
+      await expectRevert(consents.reviewEmergencyAccess(0, { from: admin }), "Registry is paused");
+
+      await registry.unpause({ from: admin });
+      await consents.revokeConsent(otherClinician, { from: patient });
+      assert.isFalse(await consents.hasActiveConsent(patient, otherClinician));
+    });
+  });
+});
@@ -0,0 +1,79 @@
+const crypto = require("crypto");
+
+// Shared by the contract tests, truffle loads this file too but it declares no tests
+
+// Same as institutionId() in client/app/lib/institution.ts
+const institutionId = (orgId) => web3.utils.soliditySha3({ type: "string", value: orgId });
+
+const randomHash = () => "0x" + crypto.randomBytes(32).toString("hex");
+
+const HashAlgorithm = { SHA256: 0, KECCAK256: 1 };
+
+// Fails the test unless the transaction reverts with the given reason
+async function expectRevert(promise, reason) {
+  try {
+    await promise;
+  } catch (error) {
+    assert.include(error.message, reason, `Expected a revert with "${reason}"`);
+    return;
+  }
+  assert.fail(`Expected a revert with "${reason}"`);
+}
+
+// Sorted-pair SHA-256, as PatientRegistry.verifyMerkleProof and client/app/lib/merkle.ts combine nodes
+function hashPair(a, b) {
+  const [first, second] = [a, b].map((hash) => hash.toLowerCase().replace(/^0x/, "")).sort();
+  return "0x" + crypto.createHash("sha256").update(Buffer.from(first + second, "hex")).digest("hex");
+}
+
+function rpc(method, params) {
+  return new Promise((resolve, reject) => {
+    web3.currentProvider.send({ jsonrpc: "2.0", id: Date.now(), method, params }, (error, response) => {
+      if (error || response.error) {
+        reject(error || new Error(response.error.message));
+      } else {
+        resolve(response.result);
+      }
+    });
+  });
+}
+
+// Moves the chain's clock forward and mines a block at the new time
+async function increaseTime(seconds) {
+  await rpc("evm_increaseTime", [seconds]);
+  await rpc("evm_mine", []);
+}
+
+// Asks the node to sign the typed data with one of its unlocked accounts, as MetaMask does in the browser
+function signTypedData(signer, typedData) {
+  return rpc("eth_signTypedData_v4", [signer, typedData]);
+}
+
+// Must match ATTESTATION_TYPES in client/app/lib/attestation.ts
+async function signAttestation(registry, clinician, message) {
+  const nonce = Number(await registry.getAttestationNonce(clinician));
+  const chainId = Number(await web3.eth.getChainId());
+  return signTypedData(clinician, {
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" },
+      ],
+      Attestation: [
+        { name: "patientAddress", type: "address" },
+        { name: "institutionId", type: "bytes32" },
+        { name: "dataHash", type: "bytes32" },
+        { name: "algorithm", type: "uint8" },
+        { name: "schemaVersion", type: "uint16" },
+        { name: "nonce", type: "uint256" },
+      ],
+    },
+    primaryType: "Attestation",
+    domain: { name: "PatientRegistry", version: "1", chainId, verifyingContract: registry.address },
+    message: { ...message, nonce },
+  });
+}
+
+module.exports = { institutionId, randomHash, HashAlgorithm, expectRevert, hashPair, increaseTime, signAttestation };
@@ -0,0 +1,233 @@
+const PatientRegistry = artifacts.require("PatientRegistry");
+const { institutionId, randomHash, HashAlgorithm, expectRevert, hashPair, signAttestation } = require("./helpers");
+
+contract("PatientRegistry", (accounts) => {
+  const [admin, clinician, otherClinician, relayer, outsider, patient, secondPatient] = accounts;
+  const institution = institutionId("org_hospital");
+  const otherInstitution = institutionId("org_clinic");
+  let registry;
+
+  beforeEach(async () => {
+    registry = await PatientRegistry.new({ from: admin });
+    await registry.grantClinician(clinician, institution, { from: admin });
+    await registry.grantClinician(otherClinician, otherInstitution, { from: admin });
+  });
+
+  describe("roles", () => {
+    it("binds a clinician to the institution it was granted for", async () => {
+      assert.isTrue(await registry.isClinician(clinician));
+      assert.equal(await registry.getClinicianInstitution(clinician), institution);
+      assert.isFalse(await registry.isClinician(outsider));
+    });
+
+    it("only lets the admin grant and revoke clinicians", async () => {
+      await expectRevert(registry.grantClinician(outsider, institution, { from: clinician }), "restricted to the admin");
+      await expectRevert(registry.grantClinician(clinician, otherInstitution, { from: admin }), "already a clinician");
+
+      await registry.revokeClinician(clinician, { from: admin });
+      assert.isFalse(await registry.isClinician(clinician));
+      await expectRevert(registry.revokeClinician(clinician, { from: admin }), "not a clinician");
+    });
+
+    it("never makes the admin a relayer", async () => {
+      await expectRevert(registry.grantRelayer(admin, { from: admin }), "admin cannot be a relayer");
+      await registry.grantRelayer(relayer, { from: admin });
+      assert.isTrue(await registry.isRelayer(relayer));
+      await registry.revokeRelayer(relayer, { from: admin });
+      assert.isFalse(await registry.isRelayer(relayer));
+    });
+
+    it("rejects registrations from outsiders and from clinicians of another institution", async () => {
+      await expectRevert(
+        registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: outsider }),
+        "not an allowlisted clinician"
+      );
+      await expectRevert(
+        registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: otherClinician }),
+        "not a clinician of this institution"
+      );
+    });
+  });
+
+  describe("versioning", () => {
+    it("keeps every version and returns the latest as the record", async () => {
+      const first = randomHash();
+      const second = randomHash();
+      await registry.registerPatient(patient, institution, first, HashAlgorithm.SHA256, 3, { from: clinician });
+      await registry.registerPatient(patient, institution, second, HashAlgorithm.KECCAK256, 4, { from: clinician });
+
+      assert.equal(Number(await registry.getVersionCount(patient)), 2);
+      assert.equal((await registry.getPatientVersion(patient, 1)).dataHash, first);
+      assert.equal((await registry.getPatientRecord(patient)).dataHash, second);
+      assert.equal(Number((await registry.getPatientRecord(patient)).schemaVersion), 4);
+      assert.lengthOf(await registry.getPatientHistory(patient), 2);
+      await expectRevert(registry.getPatientVersion(patient, 3), "Version does not exist");
+    });
+
+    it("keeps later versions with the institution that registered the patient", async () => {
+      await registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: clinician });
+      await expectRevert(
+        registry.registerPatient(patient, otherInstitution, randomHash(), HashAlgorithm.SHA256, 4, { from: otherClinician }),
+        "belongs to another institution"
+      );
+    });
+
+    it("rejects an empty hash or schema version", async () => {
+      await expectRevert(
+        registry.registerPatient(patient, institution, "0x" + "00".repeat(32), HashAlgorithm.SHA256, 4, { from: clinician }),
+        "Data hash cannot be empty"
+      );
+      await expectRevert(
+        registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 0, { from: clinician }),
+        "Schema version must be set"
+      );
+    });
+  });
+
+  describe("batch registration and enumeration", () => {
+    it("registers a cohort and pages through the registry and the institution", async () => {
+      await registry.registerPatients([patient, secondPatient], institution, [randomHash(), randomHash()], HashAlgorithm.SHA256, 4, { from: clinician });
+      await registry.registerPatient(outsider, otherInstitution, randomHash(), HashAlgorithm.SHA256, 4, { from: otherClinician });
+
+      assert.equal(Number(await registry.getPatientCount()), 3);
+      assert.deepEqual(await registry.getPatientAddresses(0, 2), [patient, secondPatient]);
+      assert.deepEqual(await registry.getPatientAddresses(2, 10), [outsider]);
+      assert.deepEqual(await registry.getPatientAddresses(5, 10), []);
+
+      assert.equal(Number(await registry.getInstitutionPatientCount(institution)), 2);
+      assert.deepEqual(await registry.getInstitutionPatientAddresses(otherInstitution, 0, 10), [outsider]);
+      assert.equal(await registry.getPatientInstitution(secondPatient), institution);
+    });
+
+    it("rejects mismatched and empty batches", async () => {
+      await expectRevert(
+        registry.registerPatients([patient], institution, [randomHash(), randomHash()], HashAlgorithm.SHA256, 4, { from: clinician }),
+        "must have the same length"
+      );
+      await expectRevert(
+        registry.registerPatients([], institution, [], HashAlgorithm.SHA256, 4, { from: clinician }),
+        "Batch cannot be empty"
+      );
+    });
+  });
+
+  describe("pause", () => {
+    it("halts writes until the admin resumes the registry", async () => {
+      await expectRevert(registry.pause({ from: clinician }), "restricted to the admin");
+      await registry.pause({ from: admin });
+      assert.isTrue(await registry.paused());
+
+      await expectRevert(
+        registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: clinician }),
+        "Registry is paused"
+      );
+      await expectRevert(
+        registry.anchorMerkleRoot(institution, randomHash(), 2, HashAlgorithm.SHA256, 4, { from: clinician }),
+        "Registry is paused"
+      );
+
+      await registry.unpause({ from: admin });
+      await registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: clinician });
+      assert.equal(Number(await registry.getVersionCount(patient)), 1);
+    });
+  });
+
+  describe("tombstones", () => {
+    it("erases a record and blocks any new version of it", async () => {
+      await registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: clinician });
+      await expectRevert(registry.erasePatient(patient, institution, 0, { from: clinician }), "restricted to the admin");
+      await expectRevert(registry.erasePatient(patient, otherInstitution, 0, { from: admin }), "belongs to another institution");
+
+      await registry.erasePatient(patient, institution, 1, { from: admin });
+      const erasure = await registry.getErasure(patient);
+      assert.isTrue(erasure.erased);
+      assert.equal(Number(erasure.reason), 1);
+      assert.equal(erasure.erasedBy, admin);
+      // The anchored hashes stay as the audit trail
+      assert.equal(Number(await registry.getVersionCount(patient)), 1);
+
+      await expectRevert(
+        registry.registerPatient(patient, institution, randomHash(), HashAlgorithm.SHA256, 4, { from: clinician }),
+        "has been erased"
+      );
+      await expectRevert(registry.erasePatient(patient, institution, 0, { from: admin }), "already erased");
+    });
+  });
+
+  describe("Merkle batches", () => {
+    it("verifies a proof against the anchored root and rejects a foreign leaf", async () => {
+      const leaves = [randomHash(), randomHash(), randomHash()];
+      const pair = hashPair(leaves[0], leaves[1]);
+      const root = hashPair(pair, leaves[2]);
+
+      await registry.anchorMerkleRoot(institution, root, leaves.length, HashAlgorithm.SHA256, 4, { from: clinician });
+      const batch = await registry.getMerkleBatch(0);
+      assert.equal(batch.root, root);
+      assert.equal(batch.submittedBy, clinician);
+
+      assert.isTrue(await registry.verifyMerkleProof(0, leaves[0], [leaves[1], leaves[2]]));
+      assert.isTrue(await registry.verifyMerkleProof(0, leaves[2], [pair]));
+      assert.isFalse(await registry.verifyMerkleProof(0, randomHash(), [leaves[1], leaves[2]]));
+      await expectRevert(registry.getMerkleBatch(1), "Merkle batch does not exist");
+    });
+
+    it("only takes roots from the institution's own clinicians", async () => {
+      await expectRevert(
+        registry.anchorMerkleRoot(institution, randomHash(), 2, HashAlgorithm.SHA256, 4, { from: otherClinician }),
+        "not a clinician of this institution"
+      );
+    });
+  });
+
+  describe("EIP-712 attestations", () => {
+    beforeEach(async () => {
+      await registry.grantRelayer(relayer, { from: admin });
+    });
+
+    it("anchors a relayed record the clinician signed and names them", async () => {
+      const dataHash = randomHash();
+      const message = { patientAddress: patient, institutionId: institution, dataHash, algorithm: HashAlgorithm.SHA256, schemaVersion: 4 };
+      const signature = await signAttestation(registry, clinician, message);
+
+      await registry.registerAttestedPatient(patient, institution, dataHash, HashAlgorithm.SHA256, 4, clinician, signature, { from: relayer });
+      const record = await registry.getPatientRecord(patient);
+      assert.equal(record.dataHash, dataHash);
+      assert.equal(record.attestedBy, clinician);
+      assert.equal(Number(await registry.getAttestationNonce(clinician)), 1);
+
+      // The nonce moved on, the same signature cannot be replayed
+      await expectRevert(
+        registry.registerAttestedPatient(patient, institution, dataHash, HashAlgorithm.SHA256, 4, clinician, signature, { from: relayer }),
+        "not signed by the clinician"
+      );
+    });
+
+    it("rejects an attestation submitted under another institution or algorithm", async () => {
+      const dataHash = randomHash();
+      const message = { patientAddress: patient, institutionId: institution, dataHash, algorithm: HashAlgorithm.SHA256, schemaVersion: 4 };
+      const signature = await signAttestation(registry, clinician, message);
+
+      await expectRevert(
+        registry.registerAttestedPatient(patient, institution, dataHash, HashAlgorithm.KECCAK256, 4, clinician, signature, { from: relayer }),
+        "not signed by the clinician"
+      );
+      await expectRevert(
+        registry.registerAttestedPatient(patient, otherInstitution, dataHash, HashAlgorithm.SHA256, 4, clinician, signature, { from: relayer }),
+        "not a clinician of this institution"
+      );
+    });
+
+    it("only accepts attestations from a relayer or the signer", async () => {
+      const dataHash = randomHash();
+      const message = { patientAddress: patient, institutionId: institution, dataHash, algorithm: HashAlgorithm.SHA256, schemaVersion: 4 };
+      const signature = await signAttestation(registry, clinician, message);
+
+      await expectRevert(
+        registry.registerAttestedPatient(patient, institution, dataHash, HashAlgorithm.SHA256, 4, clinician, signature, { from: outsider }),
+        "not a relayer or the signing clinician"
+      );
+      await registry.registerAttestedPatient(patient, institution, dataHash, HashAlgorithm.SHA256, 4, clinician, signature, { from: clinician });
+      assert.equal((await registry.getPatientRecord(patient)).attestedBy, clinician);
+    });
+  });
+});